@@ -1,23 +1,41 @@
 import { addonBuilder, getRouter, Manifest, Stream } from "stremio-addon-sdk";
-import { getStreamContent, VixCloudStreamInfo, ExtractorConfig } from "./extractor";
+import { vixSrcIndex, vixSrcMirrors } from "./extractor";
 import * as fs from 'fs';
 import { landingTemplate } from './landingPage';
 import * as path from 'path';
 import express, { Request, Response, NextFunction } from 'express'; // ✅ CORRETTO: Import tipizzato
-import { AnimeUnityProvider } from './providers/animeunity-provider';
 import { KitsuProvider } from './providers/kitsu'; 
 import { formatMediaFlowUrl } from './utils/mediaflow';
-import { AnimeUnityConfig } from "./types/animeunity";
-
-// Interfaccia per la configurazione URL
-interface AddonConfig {
-  mediaFlowProxyUrl?: string;
-  mediaFlowProxyPassword?: string;
-  tmdbApiKey?: string;
-  bothLinks?: string;
-  animeunityEnabled?: string;
-  [key: string]: any;
-}
+import { VIXSRC_CATALOGS, getVixSrcCatalog } from './providers/vixsrc-catalog';
+import { animeMappingStore } from './providers/anime-mapping';
+import { getProviderConfigFields, getStreamProvidersFor, runStreamProviders } from './providers/registry';
+import { animeUnityMirrors } from './providers/animeunity-client';
+import { ANIMEUNITY_CATALOGS, ANIMEUNITY_META_RESOURCE, getAnimeUnityCatalog, getAnimeUnityMeta } from './providers/animeunity-catalog';
+import { VIXSRC_SUBTITLES_RESOURCE, getVixSrcSubtitles, getSubtitleVtt } from './providers/vixsrc-subtitles';
+import { configureProxySecret, proxyRouter } from './proxy';
+import { playRouter } from './play';
+import { createConfigCheckRouter } from './config-check';
+import { DEFAULT_NAME_TEMPLATE, DEFAULT_TITLE_TEMPLATE, TEMPLATE_PLACEHOLDERS } from './utils/stream-template';
+import { applyStreamPreferences } from './utils/stream-preferences';
+import { createStatusRouter } from './status';
+import { configureConfigSecrets, encryptConfig, decryptConfig, isConfigToken, maskSecrets, restoreSecrets } from './utils/config-token';
+import { ConfigStore } from './utils/config-store';
+import { Config, EnvConfig, ConfigError, loadEnvConfig, resolveUserConfig } from './utils/config';
+import { createLogger, configureLogger, newRequestId, runWithRequestId } from './utils/logger';
+import { instrumentAxios } from './utils/http';
+import { rateLimit } from './utils/rate-limit';
+import { renderMetrics, idPrefixLabel, typeLabel, streamRequests, streamRequestDuration } from './utils/metrics';
+
+const log = createLogger('addon');
+
+// Durata della cache (in secondi) indicata a Stremio e ai CDN per le risposte stream.
+// I link diretti contengono token che scadono dopo qualche ora, quindi restiamo sotto quella soglia.
+const STREAM_CACHE_MAX_AGE = 30 * 60;
+const STREAM_STALE_REVALIDATE = 60 * 60;
+const EMPTY_STREAM_CACHE_MAX_AGE = 5 * 60;
+const CATALOG_CACHE_MAX_AGE = 60 * 60;
+const META_CACHE_MAX_AGE = 6 * 60 * 60;
+const SUBTITLES_CACHE_MAX_AGE = 60 * 60;
 
 // Base manifest configuration
 const baseManifest: Manifest = {
@@ -29,8 +47,8 @@ const baseManifest: Manifest = {
     background: "/public/backround.png",
     types: ["movie", "series"],
     idPrefixes: ["tt", "kitsu"],
-    catalogs: [],
-    resources: ["stream"],
+    catalogs: VIXSRC_CATALOGS,
+    resources: ["stream", "catalog", VIXSRC_SUBTITLES_RESOURCE],
     behaviorHints: {
         configurable: true
     },
@@ -38,28 +56,79 @@ const baseManifest: Manifest = {
         {
             key: "tmdbApiKey",
             title: "TMDB API Key",
-            type: "password"
+            type: "password",
+            group: "Generale",
+            description: "Necessaria per trovare i titoli su VixSrc; vuota = chiave del server, se presente"
+        },
+        {
+            key: "bothLinks",
+            title: "Mostra entrambi i link (Proxy e Direct)",
+            type: "checkbox",
+            group: "Generale",
+            description: "Predefinito: solo il link Proxy se un proxy è configurato, altrimenti solo Direct"
         },
         {
             key: "mediaFlowProxyUrl", 
             title: "MediaFlow Proxy URL",
-            type: "text"
+            type: "text",
+            group: "Proxy",
+            description: "Es. https://mediaflow.example.com; vuoto = MediaFlow del server, se presente"
         },
         {
             key: "mediaFlowProxyPassword",
             title: "MediaFlow Proxy Password ", 
-            type: "password"
+            type: "password",
+            group: "Proxy",
+            description: "La api_password della tua istanza MediaFlow"
         },
         {
-            key: "bothLinks",
-            title: "Mostra entrambi i link (Proxy e Direct)",
-            type: "checkbox"
+            key: "builtinProxy",
+            title: "Usa il proxy integrato se MediaFlow non è configurato",
+            type: "checkbox",
+            group: "Proxy",
+            description: "Gli stream passano da questo server invece che da MediaFlow"
         },
         {
-            key: "animeunityEnabled",
-            title: "Enable AnimeUnity (Kitsu Catalog)",
-            type: "checkbox"
-        }
+            key: "preferredLanguage",
+            title: "Lingua preferita",
+            type: "select",
+            options: ["Qualsiasi", "ITA (doppiato)", "SUB ITA (originale sottotitolato)"],
+            default: "Qualsiasi",
+            group: "Lingua e link",
+            description: "Gli stream in questa lingua vengono mostrati per primi, da tutte le sorgenti"
+        },
+        {
+            key: "hideOtherLanguages",
+            title: "Nascondi le altre lingue",
+            type: "checkbox",
+            group: "Lingua e link",
+            description: "Mostra solo la lingua preferita; gli stream di lingua sconosciuta restano visibili"
+        },
+        {
+            key: "preferredSource",
+            title: "Tipo di link preferito",
+            type: "select",
+            options: ["Qualsiasi", "Proxy", "Direct"],
+            default: "Qualsiasi",
+            group: "Lingua e link",
+            description: "A parità di lingua, questi link vengono mostrati per primi"
+        },
+        {
+            key: "nameTemplate",
+            title: "Template del nome dello stream",
+            type: "text",
+            group: "Titoli stream",
+            description: `Segnaposto: ${TEMPLATE_PLACEHOLDERS.map(key => `{${key}}`).join(' ')}; {if:quality}...{/if} mostra il testo solo se il valore è presente, \\n va a capo. Vuoto = ${DEFAULT_NAME_TEMPLATE}`
+        },
+        {
+            key: "titleTemplate",
+            title: "Template del titolo dello stream",
+            type: "text",
+            group: "Titoli stream",
+            description: `Stessa sintassi del nome. Vuoto = ${DEFAULT_TITLE_TEMPLATE}`
+        },
+        // Campi specifici di ogni provider (es. risoluzione VixSrc, attivazione AnimeUnity)
+        ...getProviderConfigFields()
     ]
 };
 
@@ -83,43 +152,166 @@ function loadCustomConfig(): Manifest {
             };
         }
     } catch (error) {
-        console.error('Error loading custom configuration:', error);
+        log.error('Error loading custom configuration', { error });
     }
     
     return baseManifest;
 }
 
-// Funzione per parsare la configurazione dall'URL
-function parseConfigFromArgs(args: any): AddonConfig {
-    const config: AddonConfig = {};
-    
-    if (typeof args === 'string') {
-        try {
-            const decoded = decodeURIComponent(args);
-            const parsed = JSON.parse(decoded);
-            return parsed;
-        } catch (error) {
-            return {};
+// Variabili d'ambiente validate all'avvio: con valori non validi il server non parte
+function loadEnvConfigOrExit(): EnvConfig {
+    try {
+        return loadEnvConfig();
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            log.error('❌ Invalid environment configuration', { issues: error.issues });
+            process.exit(1);
         }
+        throw error;
     }
-    
-    if (typeof args === 'object' && args !== null) {
-        return args;
+}
+
+const envConfig = loadEnvConfigOrExit();
+configureLogger({ level: envConfig.logLevel, format: envConfig.logFormat });
+configureProxySecret(envConfig.proxySecret);
+configureConfigSecrets(envConfig.configSecrets);
+instrumentAxios();
+vixSrcMirrors.setOrigins(envConfig.vixSrcMirrors);
+animeUnityMirrors.setOrigins(envConfig.animeUnityMirrors);
+
+// Link brevi attivi solo se CONFIG_STORE_PATH è impostato
+const configStore = envConfig.configStorePath
+    ? new ConfigStore(envConfig.configStorePath, envConfig.configStoreMaxEntries)
+    : null;
+
+// Decifra un token di configurazione o il codice breve sotto cui è salvato
+function decodeConfigToken(value: string): Record<string, unknown> | null {
+    const token = configStore && ConfigStore.isShortCode(value) ? configStore.get(value) : value;
+    if (!token || !isConfigToken(token)) return null;
+    return decryptConfig(token);
+}
+
+// Configurazione inviata dal form: i segreti rimandati mascherati vengono ripresi da ?from=<token o codice>
+function readFormConfig(req: Request): unknown {
+    const previous = typeof req.query.from === 'string' ? decodeConfigToken(req.query.from) : null;
+    return restoreSecrets(req.body, previous);
+}
+
+// Funzione per parsare la configurazione dall'URL (token, codice breve o JSON delle vecchie installazioni).
+// Restituisce undefined se il primo segmento del percorso non è una configurazione (es. /manifest.json).
+function parseConfigFromArgs(segment: string): unknown {
+    if (isConfigToken(segment) || ConfigStore.isShortCode(segment)) {
+        const config = decodeConfigToken(segment);
+        if (!config) throw new ConfigError(['install token is invalid, expired or was issued with a removed key']);
+        return config;
+    }
+
+    let decoded: string;
+    try {
+        decoded = decodeURIComponent(segment);
+    } catch {
+        return undefined;
+    }
+    if (!decoded.startsWith('{')) return undefined;
+
+    // Compatibilità con le installazioni che hanno la configurazione JSON in chiaro nell'URL
+    try {
+        return JSON.parse(decoded);
+    } catch {
+        throw new ConfigError(['configuration in the URL is not valid JSON']);
     }
-    
-    return config;
 }
 
 // Funzione per creare il builder con configurazione dinamica
-function createBuilder(config: AddonConfig = {}) {
-    const manifest = loadCustomConfig();
-    
-    if (config.mediaFlowProxyUrl || config.bothLinks || config.tmdbApiKey) {
-        manifest.name;
+// publicBaseUrl: URL pubblico dell'addon, usato per i link ai file serviti da questo server (es. sottotitoli)
+function createBuilder(config: Config, publicBaseUrl: string = '') {
+    // Copia: l'SDK congela il manifest e qui lo estendiamo in base alla configurazione
+    const manifest = { ...loadCustomConfig() };
+
+    const animeUnityEnabled = config.animeUnityEnabled;
+
+    // Proxy integrato (/proxy/hls, /proxy/file): usato al posto di MediaFlow quando quest'ultimo non è configurato
+    const builtinProxyUrl = config.builtinProxy && publicBaseUrl ? publicBaseUrl : undefined;
+
+    // Cataloghi, schede e ID AnimeUnity vengono esposti solo se AnimeUnity è attivo
+    if (animeUnityEnabled) {
+        manifest.types = [...manifest.types, "anime"];
+        manifest.idPrefixes = [...(manifest.idPrefixes || []), "animeunity", "mal", "anilist"];
+        manifest.catalogs = [...(manifest.catalogs || []), ...ANIMEUNITY_CATALOGS];
+        manifest.resources = [...manifest.resources, ANIMEUNITY_META_RESOURCE];
     }
     
     const builder = new addonBuilder(manifest);
 
+    builder.defineCatalogHandler(
+        async ({
+            type,
+            id,
+            extra,
+        }: {
+            type: string;
+            id: string;
+            extra?: { skip?: string; genre?: string; search?: string };
+        }): Promise<{ metas: any[]; cacheMaxAge?: number }> => {
+            try {
+                log.info(`📚 Catalog request: ${type}/${id}`);
+                if (animeUnityEnabled && ANIMEUNITY_CATALOGS.some(catalog => catalog.id === id)) {
+                    const metas = await getAnimeUnityCatalog(id, type, extra);
+                    return { metas, cacheMaxAge: CATALOG_CACHE_MAX_AGE };
+                }
+                if (!VIXSRC_CATALOGS.some(catalog => catalog.id === id && catalog.type === type)) {
+                    return { metas: [] };
+                }
+                const skip = parseInt(extra?.skip || '0', 10) || 0;
+                const metas = await getVixSrcCatalog(vixSrcIndex, type, skip, config.tmdbApiKey);
+                return { metas, cacheMaxAge: CATALOG_CACHE_MAX_AGE };
+            } catch (error) {
+                log.error('Catalog request failed', { error });
+                return { metas: [] };
+            }
+        }
+    );
+
+    if (animeUnityEnabled) {
+        builder.defineMetaHandler(
+            async ({
+                type,
+                id,
+            }: {
+                type: string;
+                id: string;
+            }): Promise<{ meta: any; cacheMaxAge?: number }> => {
+                try {
+                    log.info(`📖 Meta request: ${type}/${id}`);
+                    const meta = await getAnimeUnityMeta(id, type);
+                    return { meta, cacheMaxAge: META_CACHE_MAX_AGE };
+                } catch (error) {
+                    log.error('Meta request failed', { error });
+                    return { meta: null };
+                }
+            }
+        );
+    }
+
+    builder.defineSubtitlesHandler(
+        async ({
+            type,
+            id,
+        }: {
+            type: string;
+            id: string;
+        }): Promise<{ subtitles: any[]; cacheMaxAge?: number }> => {
+            try {
+                log.info(`💬 Subtitles request: ${type}/${id}`);
+                const subtitles = await getVixSrcSubtitles(id, type, { tmdbApiKey: config.tmdbApiKey }, publicBaseUrl);
+                return { subtitles, cacheMaxAge: SUBTITLES_CACHE_MAX_AGE };
+            } catch (error) {
+                log.error('Subtitles request failed', { error });
+                return { subtitles: [] };
+            }
+        }
+    );
+
     builder.defineStreamHandler(
         async ({
             id,
@@ -129,84 +321,51 @@ function createBuilder(config: AddonConfig = {}) {
             type: string;
         }): Promise<{
             streams: Stream[];
+            cacheMaxAge?: number;
+            staleRevalidate?: number;
         }> => {
+            const metricLabels = { type: typeLabel(type), id_prefix: idPrefixLabel(id) };
+            streamRequests.inc(metricLabels);
+            const stopTimer = streamRequestDuration.startTimer(metricLabels);
             try {
-                console.log(`🔍 Stream request: ${type}/${id}`);
-                
-                const allStreams: Stream[] = [];
+                log.info(`🔍 Stream request: ${type}/${id}`);
                 
-                // Gestione AnimeUnity per ID Kitsu con fallback variabile ambiente
-                const animeUnityEnabled = (config.animeunityEnabled === 'on') || 
-                                        (process.env.ANIMEUNITY_ENABLED?.toLowerCase() === 'true');
+                const { streams: providerStreams, timedOut, failed } = await runStreamProviders(
+                    getStreamProvidersFor({ id, type }, config),
+                    { id, type },
+                    { config, publicBaseUrl, builtinProxyUrl },
+                    { deadlineMs: envConfig.streamDeadlineMs, timeoutsMs: envConfig.providerTimeoutsMs }
+                );
                 
-                if (animeUnityEnabled && id.startsWith('kitsu:')) {
-                    console.log(`🎌 Processing Kitsu ID: ${id}`);
-                    try {
-                        const bothLinkValue = config.bothLinks === 'on';
-                        
-                        const animeUnityConfig: AnimeUnityConfig = {
-                            enabled: true,
-                            mfpUrl: config.mediaFlowProxyUrl || process.env.MFP_URL || '',
-                            mfpPassword: config.mediaFlowProxyPassword || process.env.MFP_PSW || '',
-                            bothLink: bothLinkValue
-                        };
-                        
-                        const animeUnityProvider = new AnimeUnityProvider(animeUnityConfig);
-                        const animeUnityResult = await animeUnityProvider.handleKitsuRequest(id);
-                        console.log(`🎌 AnimeUnity streams found: ${animeUnityResult.streams.length}`);
-                        allStreams.push(...animeUnityResult.streams);
-                    } catch (error) {
-                        console.error('🚨 AnimeUnity error:', error);
-                    }
+                // Lingua e tipo di link preferiti dall'utente, su tutti i provider insieme
+                const allStreams = applyStreamPreferences(providerStreams, config);
+                log.info(`✅ Total streams returned: ${allStreams.length}${allStreams.length < providerStreams.length ? ` (${providerStreams.length - allStreams.length} hidden by language preference)` : ''}`);
+                if (timedOut.length || failed.length) {
+                    // Voce informativa in fondo alla lista: la risposta non va tenuta in cache a lungo
+                    const notes = [
+                        timedOut.length ? `⏱️ Nessuna risposta in tempo da: ${timedOut.join(', ')}` : '',
+                        failed.length ? `⚠️ Sorgenti non raggiungibili: ${failed.join(', ')}` : ''
+                    ].filter(Boolean);
+                    allStreams.push({
+                        name: 'StreamViX',
+                        title: notes.join('\n'),
+                        externalUrl: `${publicBaseUrl}/status?format=html`
+                    });
+                    return { streams: allStreams, cacheMaxAge: EMPTY_STREAM_CACHE_MAX_AGE };
                 }
-                
-                // Mantieni logica VixSrc per tutti gli altri ID
-                if (!id.startsWith('kitsu:')) {
-                    console.log(`📺 Processing non-Kitsu ID with VixSrc: ${id}`);
-                    
-                    let bothLinkValue: boolean;
-                    if (config.bothLinks !== undefined) {
-                        bothLinkValue = config.bothLinks === 'on';
-                    } else {
-                        bothLinkValue = process.env.BOTHLINK?.toLowerCase() === 'true';
-                    }
-
-                    const finalConfig: ExtractorConfig = {
-                        tmdbApiKey: config.tmdbApiKey || process.env.TMDB_API_KEY,
-                        mfpUrl: config.mediaFlowProxyUrl || process.env.MFP_URL,
-                        mfpPsw: config.mediaFlowProxyPassword || process.env.MFP_PSW,
-                        bothLink: bothLinkValue
-                    };
-
-                    const res: VixCloudStreamInfo[] | null = await getStreamContent(id, type, finalConfig);
-
-                    if (res) {
-                        for (const st of res) {
-                            if (st.streamUrl == null) continue;
-                            
-                            console.log(`Adding stream with title: "${st.name}"`);
-
-                            const streamName = st.source === 'proxy' ? 'StreamViX (Proxy)' : 'StreamViX';
-                            
-                            allStreams.push({
-                                title: st.name,
-                                name: streamName,
-                                url: st.streamUrl,
-                                behaviorHints: {
-                                    notWebReady: true,
-                                    headers: { "Referer": st.referer },
-                                },
-                            });
-                        }
-                        console.log(`📺 VixSrc streams found: ${res.length}`);
-                    }
+                if (allStreams.length === 0) {
+                    return { streams: allStreams, cacheMaxAge: EMPTY_STREAM_CACHE_MAX_AGE };
                 }
-                
-                console.log(`✅ Total streams returned: ${allStreams.length}`);
-                return { streams: allStreams };
+                return {
+                    streams: allStreams,
+                    cacheMaxAge: STREAM_CACHE_MAX_AGE,
+                    staleRevalidate: STREAM_STALE_REVALIDATE
+                };
             } catch (error) {
-                console.error('Stream extraction failed:', error);
+                log.error('Stream extraction failed', { error });
                 return { streams: [] };
+            } finally {
+                stopTimer();
             }
         }
     );
@@ -217,20 +376,127 @@ function createBuilder(config: AddonConfig = {}) {
 // Server Express
 const app = express();
 
+// ID di correlazione: arriva da X-Request-Id (es. dal reverse proxy) o viene generato, e accompagna tutti i log della richiesta
+app.use((req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.get('x-request-id');
+    const requestId = incoming && /^[\w-]{1,64}$/.test(incoming) ? incoming : newRequestId();
+    res.setHeader('X-Request-Id', requestId);
+    runWithRequestId(requestId, () => next());
+});
+
 app.use('/public', express.static(path.join(__dirname, '..', 'public')));
 
 // ✅ CORRETTO: Annotazioni di tipo esplicite per Express
-app.get('/', (_: Request, res: Response) => {
+const serveLandingPage = (_: Request, res: Response) => {
     const manifest = loadCustomConfig();
     const landingHTML = landingTemplate(manifest);
     res.setHeader('Content-Type', 'text/html');
     res.send(landingHTML);
+};
+
+app.get('/', serveLandingPage);
+// /configure e /<token>/configure: la pagina ricarica la configurazione esistente dal token
+app.get('/configure', serveLandingPage);
+app.get('/:token/configure', serveLandingPage);
+
+// La pagina chiede un token a ogni modifica del form, i codici brevi solo per installare o copiare il link
+const configTokenLimit = rateLimit({ windowMs: 60 * 1000, max: 60 });
+const shortCodeLimit = rateLimit({ windowMs: 60 * 1000, max: 10 });
+
+// Cifra la configurazione del form in un token opaco
+app.post('/api/config', configTokenLimit, express.json({ limit: '16kb' }), (req: Request, res: Response) => {
+    const input = readFormConfig(req);
+    try {
+        resolveUserConfig(input, envConfig);
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        res.status(400).json({ error: error.message, issues: error.issues });
+        return;
+    }
+    const token = encryptConfig((input || {}) as Record<string, unknown>);
+    res.json({ token, shortLinks: !!configStore });
+});
+
+// Codice breve per un token: la pagina lo chiede solo al momento di installare o copiare il link
+app.post('/api/config/short', shortCodeLimit, express.json({ limit: '32kb' }), (req: Request, res: Response) => {
+    if (!configStore) {
+        res.status(404).json({ error: 'Short links are disabled' });
+        return;
+    }
+    const token = req.body?.token;
+    const config = typeof token === 'string' ? decryptConfig(token) : null;
+    if (!config) {
+        res.status(400).json({ error: 'Invalid configuration token' });
+        return;
+    }
+    const code = configStore.save(token, config);
+    if (!code) {
+        res.status(503).json({ error: 'Short link storage is full' });
+        return;
+    }
+    res.json({ code });
+});
+
+// Verifica le impostazioni del form (chiave TMDB, MediaFlow, AnimeUnity) prima dell'installazione
+app.use(createConfigCheckRouter(envConfig, readFormConfig));
+
+app.get('/api/config/:token', (req: Request, res: Response) => {
+    const config = decodeConfigToken(req.params.token);
+    if (!config) {
+        res.status(404).json({ error: 'Configuration not found' });
+        return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    // Chi ha il link di installazione non deve poter leggere chiave TMDB e password MediaFlow
+    res.json({ config: maskSecrets(config) });
+});
+
+// Proxy integrato con URL firmati (HMAC), alternativa a MediaFlow
+app.use(proxyRouter);
+
+// Link stabili per gli stream diretti: il token VixCloud viene risolto al momento della riproduzione
+app.use(playRouter);
+
+// Metriche Prometheus (richieste stream, chiamate upstream, errori di estrazione)
+app.get('/metrics', (_: Request, res: Response) => {
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(renderMetrics());
+});
+
+// /health per l'healthcheck Docker, /status con lo stato dei servizi esterni
+app.use(createStatusRouter(envConfig));
+
+// Tracce sottotitoli VixCloud convertite in un unico file WebVTT
+app.get('/subtitles-vtt/:key.vtt', async (req: Request, res: Response) => {
+    try {
+        const vtt = await getSubtitleVtt(req.params.key);
+        if (!vtt) {
+            res.status(404).send('Subtitle track not found');
+            return;
+        }
+        res.setHeader('Content-Type', 'text/vtt; charset=utf-8');
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Cache-Control', `public, max-age=${SUBTITLES_CACHE_MAX_AGE}`);
+        res.send(vtt);
+    } catch (error) {
+        log.error('Subtitle conversion failed', { error });
+        res.status(502).send('Subtitle track unavailable');
+    }
 });
 
 app.use((req: Request, res: Response, next: NextFunction) => {
     const configString = req.path.split('/')[1];
-    const config = parseConfigFromArgs(configString);
-    const builder = createBuilder(config);
+    let config: Config;
+    try {
+        config = resolveUserConfig(parseConfigFromArgs(configString), envConfig);
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        log.warn(`⚠️ Rejected request with invalid configuration: ${error.message}`);
+        res.status(400).json({ error: error.message, issues: error.issues });
+        return;
+    }
+    const protocol = (req.headers['x-forwarded-proto'] as string | undefined)?.split(',')[0] || req.protocol;
+    const builder = createBuilder(config, `${protocol}://${req.get('host')}`);
     
     const addonInterface = builder.getInterface();
     const router = getRouter(addonInterface);
@@ -238,7 +504,10 @@ app.use((req: Request, res: Response, next: NextFunction) => {
     router(req, res, next);
 });
 
-const PORT = process.env.PORT || 7860;
+vixSrcIndex.start();
+animeMappingStore.start(envConfig.animeMappingUrl);
+
+const PORT = envConfig.port;
 app.listen(PORT, () => {
-    console.log(`Addon server running on http://127.0.0.1:${PORT}`);
+    log.info(`Addon server running on http://127.0.0.1:${PORT}`);
 });
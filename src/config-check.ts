@@ -0,0 +1,155 @@
+import { promises as dns } from 'dns';
+import express, { Request, Response } from 'express';
+import { isIP } from 'net';
+import { TMDB_API_BASE_URL } from './extractor';
+import { animeUnityMirrors } from './providers/animeunity-client';
+import { Config, ConfigError, EnvConfig, resolveUserConfig } from './utils/config';
+import { fetchUpstream } from './utils/http';
+import { createLogger } from './utils/logger';
+import { withTimeout } from './utils/timeout';
+
+const log = createLogger('config-check');
+
+const CHECK_TIMEOUT_MS = 8000;
+
+type CheckStatus = 'ok' | 'error' | 'skipped';
+
+export interface ConfigCheckResult {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+// Una sola richiesta, senza retry: l'utente sta aspettando la risposta nella pagina
+function checkFetch(url: string, init: RequestInit = {}) {
+  return fetchUpstream(url, { ...init, timeoutMs: CHECK_TIMEOUT_MS, retries: 0 });
+}
+
+// Loopback, reti private, link-local e indirizzi non instradabili (IPv4, IPv6 e IPv4 mappati in IPv6)
+function isInternalAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isInternalAddress(mapped[1]);
+  // Forma esadecimale prodotta da URL, es. [::ffff:c0a8:101] per 192.168.1.1
+  const mappedHex = address.toLowerCase().match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isInternalAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 100 && b >= 64 && b <= 127);
+  }
+  const normalized = address.toLowerCase();
+  return normalized === '::' || normalized === '::1'
+    || /^f[cd]/.test(normalized)
+    || /^fe[89ab]/.test(normalized);
+}
+
+/**
+ * Un URL MediaFlow inserito dall'utente non deve far interrogare al server la propria rete interna
+ * @returns il motivo del rifiuto, o null se l'host risolve solo verso indirizzi pubblici
+ */
+async function internalHostReason(url: string): Promise<string | null> {
+  const { hostname } = new URL(url);
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) return 'Indirizzo locale non consentito';
+  const addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(entry => entry.address);
+  return addresses.some(isInternalAddress) ? 'Indirizzo di rete privata non consentito' : null;
+}
+
+async function runCheck(name: string, check: () => Promise<Omit<ConfigCheckResult, 'name'>>): Promise<ConfigCheckResult> {
+  try {
+    return { name, ...(await withTimeout(check(), CHECK_TIMEOUT_MS)) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Check ${name} failed: ${message}`);
+    return { name, status: 'error', detail: `Non raggiungibile: ${message}` };
+  }
+}
+
+async function checkTmdb(config: Config, serverKey: boolean): Promise<Omit<ConfigCheckResult, 'name'>> {
+  if (!config.tmdbApiKey) {
+    return { status: 'error', detail: 'Chiave mancante: senza TMDB VixSrc non restituisce stream' };
+  }
+  const response = await checkFetch(`${TMDB_API_BASE_URL}/configuration?api_key=${encodeURIComponent(config.tmdbApiKey)}`);
+  if (response.status === 401) return { status: 'error', detail: 'Chiave non valida' };
+  if (!response.ok) return { status: 'error', detail: `TMDB ha risposto HTTP ${response.status}` };
+  return { status: 'ok', detail: serverKey ? 'Chiave del server valida' : 'Chiave valida' };
+}
+
+/**
+ * @param userUrl true se l'URL arriva dal form: quello del server (MFP_URL) può stare sulla rete interna
+ */
+async function checkMediaFlow(config: Config, userUrl: boolean): Promise<Omit<ConfigCheckResult, 'name'>> {
+  if (!config.mfpUrl) {
+    return {
+      status: 'skipped',
+      detail: config.builtinProxy ? 'Non configurato: viene usato il proxy integrato' : 'Non configurato'
+    };
+  }
+  const baseUrl = config.mfpUrl.replace(/\/+$/, '');
+  if (userUrl) {
+    const reason = await internalHostReason(baseUrl);
+    if (reason) return { status: 'error', detail: reason };
+  }
+  // Senza seguire i redirect: non devono portare la verifica verso un host non controllato
+  const init: RequestInit = userUrl ? { redirect: 'manual' } : {};
+  const health = await checkFetch(`${baseUrl}/health`, init);
+  if (!health.ok) return { status: 'error', detail: `Non raggiungibile (HTTP ${health.status})` };
+
+  // /proxy/ip richiede api_password: un 401/403 indica una password errata
+  const auth = await checkFetch(`${baseUrl}/proxy/ip?api_password=${encodeURIComponent(config.mfpPassword)}`, init);
+  if (auth.status === 401 || auth.status === 403) return { status: 'error', detail: 'Raggiungibile, ma la password non è corretta' };
+  if (!auth.ok) return { status: 'error', detail: `Verifica della password fallita (HTTP ${auth.status})` };
+  return { status: 'ok', detail: 'Raggiungibile, password corretta' };
+}
+
+async function checkAnimeUnity(config: Config): Promise<Omit<ConfigCheckResult, 'name'>> {
+  if (!config.animeUnityEnabled) return { status: 'skipped', detail: 'Disattivato' };
+  const origin = animeUnityMirrors.active;
+  const response = await checkFetch(`${origin}/`);
+  if (!response.ok) return { status: 'error', detail: `${origin} ha risposto HTTP ${response.status}` };
+  return { status: 'ok', detail: `Disponibile (${origin})` };
+}
+
+/**
+ * Verifica le impostazioni del form prima dell'installazione: chiave TMDB, MediaFlow e disponibilità di AnimeUnity
+ */
+export async function checkUserConfig(config: Config, input: Record<string, unknown> = {}): Promise<ConfigCheckResult[]> {
+  const serverKey = !(typeof input.tmdbApiKey === 'string' && input.tmdbApiKey.trim());
+  const userMediaFlowUrl = typeof input.mediaFlowProxyUrl === 'string' && input.mediaFlowProxyUrl.trim() !== '';
+  return Promise.all([
+    runCheck('TMDB', () => checkTmdb(config, serverKey)),
+    runCheck('MediaFlow Proxy', () => checkMediaFlow(config, userMediaFlowUrl)),
+    runCheck('AnimeUnity', () => checkAnimeUnity(config))
+  ]);
+}
+
+/**
+ * POST /api/config/verify: usato dal pulsante "Verifica" della pagina di configurazione
+ * @param readFormConfig legge il form dalla richiesta, ripristinando i segreti mascherati
+ */
+export function createConfigCheckRouter(envConfig: EnvConfig, readFormConfig: (req: Request) => unknown) {
+  const router = express.Router();
+
+  router.post('/api/config/verify', express.json({ limit: '16kb' }), async (req: Request, res: Response) => {
+    const input = readFormConfig(req);
+    let config: Config;
+    try {
+      config = resolveUserConfig(input, envConfig);
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
+      res.status(400).json({ error: error.message, issues: error.issues });
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ checks: await checkUserConfig(config, (input || {}) as Record<string, unknown>) });
+  });
+
+  return router;
+}
@@ -1,37 +1,90 @@
 import { ContentType } from "stremio-addon-sdk";
+import { createHash } from "crypto";
 import * as cheerio from "cheerio";
+import { TtlCache } from "./utils/cache";
+import { VixSrcIndex } from "./providers/vixsrc-index";
+import { HlsVariant, parseMasterPlaylist, describeVariant } from "./utils/hls";
+import { buildProxyUrl } from "./proxy";
+import { fetchUpstream, UpstreamError } from "./utils/http";
+import { MirrorSet } from "./utils/mirrors";
+import { SingleFlight } from "./utils/single-flight";
+import { extractorFailures } from "./utils/metrics";
+import { createLogger } from "./utils/logger";
+
+const log = createLogger("vixsrc");
 
 // --- Configuration for VixCloud ---
-const VIXCLOUD_SITE_ORIGIN = "https://vixsrc.to"; // e.g., "https://vixcloud.co"
+const VIXCLOUD_SITE_ORIGIN = "https://vixsrc.to"; // Default, sovrascrivibile con VIXSRC_MIRRORS
 const VIXCLOUD_REQUEST_TITLE_PATH = "/richiedi-un-titolo"; // Path used to fetch site version
 const VIXCLOUD_EMBED_BASE_PATH = "/embed"; // Base path for embed URLs, e.g., /embed/movie/tt12345
 // --- TMDB Configuration ---
-const TMDB_API_BASE_URL = "https://api.themoviedb.org/3";
+export const TMDB_API_BASE_URL = "https://api.themoviedb.org/3";
+
+// --- Cache Configuration ---
+const TMDB_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // Mappature IMDb -> TMDB e titoli cambiano raramente
+const SITE_VERSION_CACHE_TTL_MS = 10 * 60 * 1000; // La versione del sito cambia ad ogni deploy di VixSrc
 
 // --- End Configuration ---
 
+const tmdbIdCache = new TtlCache<string>({ maxEntries: 5000, defaultTtlMs: TMDB_CACHE_TTL_MS });
+const tmdbTitleCache = new TtlCache<string>({ maxEntries: 5000, defaultTtlMs: TMDB_CACHE_TTL_MS });
+const siteVersionCache = new TtlCache<string>({ maxEntries: 10, defaultTtlMs: SITE_VERSION_CACHE_TTL_MS });
+
+// Richieste identiche in corso condividono lo stesso lavoro (es. molti utenti sullo stesso episodio appena uscito)
+const siteVersionLoads = new SingleFlight<string>();
+const playlistResolutions = new SingleFlight<VixCloudPlaylist>();
+const streamContentLoads = new SingleFlight<VixCloudStreamInfo[] | null>();
+
+// Domini VixSrc in ordine di preferenza, configurati da addon.ts
+export const vixSrcMirrors = new MirrorSet("VixSrc", [VIXCLOUD_SITE_ORIGIN], /vixsrc/i);
+
+// Indice delle liste VixSrc, aggiornato in background da addon.ts
+export const vixSrcIndex = new VixSrcIndex(vixSrcMirrors);
+
 export interface ExtractorConfig {
   tmdbApiKey?: string;
   mfpUrl?: string;
   mfpPsw?: string;
   bothLink?: boolean;
+  /** Altezza massima (es. 720) delle varianti HLS restituite in modalità direct */
+  maxResolution?: number;
+  /** URL pubblico dell'addon: se presente e MediaFlow non è configurato, la modalità proxy usa /proxy/hls */
+  builtinProxyUrl?: string;
 }
 
 export interface VixCloudStreamInfo {
-  name: string;
+  /** Titolo TMDB o della pagina VixSrc, senza stagione ed episodio */
+  title: string;
+  season?: number;
+  episode?: number;
+  /** Dettagli della variante HLS o avvisi (es. proxy mancante) */
+  details?: string;
   streamUrl: string;
   referer: string;
   source: 'proxy' | 'direct';
+  /** Qualità della variante HLS (es. "1080p"), assente per la master playlist */
+  quality?: string;
+  /** Altezza della variante HLS, per riselezionarla quando il link viene risolto di nuovo */
+  height?: number;
+  /** Pagina embed VixSrc da cui è stato estratto il link diretto (per /play) */
+  pageUrl?: string;
 }
 
 /**
  * Fetches the site version from VixCloud.
  * This is analogous to the `version` method in the Python VixCloudExtractor.
  */
-async function fetchVixCloudSiteVersion(siteOrigin: string): Promise<string> {
+async function fetchVixCloudSiteVersion(siteOrigin: string, bypassCache = false): Promise<string> {
+  if (bypassCache) return loadVixCloudSiteVersion(siteOrigin);
+  const cachedVersion = siteVersionCache.get(siteOrigin);
+  if (cachedVersion) return cachedVersion;
+  return siteVersionLoads.run(siteOrigin, () => loadVixCloudSiteVersion(siteOrigin));
+}
+
+async function loadVixCloudSiteVersion(siteOrigin: string): Promise<string> {
   const versionUrl = `${siteOrigin}${VIXCLOUD_REQUEST_TITLE_PATH}`;
   try {
-    const response = await fetch(versionUrl, {
+    const response = await fetchUpstream(versionUrl, {
       headers: {
         "Referer": `${siteOrigin}/`,
         "Origin": siteOrigin,
@@ -48,6 +101,7 @@ async function fetchVixCloudSiteVersion(siteOrigin: string): Promise<string> {
       if (dataPage) {
         const jsonData = JSON.parse(dataPage);
         if (jsonData && jsonData.version) {
+          siteVersionCache.set(siteOrigin, jsonData.version);
           return jsonData.version;
         }
       }
@@ -58,11 +112,19 @@ async function fetchVixCloudSiteVersion(siteOrigin: string): Promise<string> {
     if (error instanceof Error) {
       message = error.message;
     }
-    console.error("Error fetching VixCloud site version:", message, error);
-    throw new Error(`Failed to get VixCloud site version: ${message}`);
+    log.error("Error fetching VixCloud site version", { error });
+    if (error instanceof UpstreamError) throw error;
+    throw new ExtractionError("site_version_failed", `Failed to get VixCloud site version: ${message}`);
   }
 }
 
+/**
+ * Versione corrente del sito VixSrc letta direttamente (senza cache), usata dalla pagina /status
+ */
+export function probeVixSrcSiteVersion(): Promise<string> {
+  return fetchVixCloudSiteVersion(vixSrcMirrors.active, true);
+}
+
 function getObject(id: string) {
   const arr = id.split(':');
   return {
@@ -72,58 +134,183 @@ function getObject(id: string) {
   };
 }
 
+// Stagione ed episodio per i template dei titoli; undefined per i film
+function episodeInfo(id: string, type: ContentType): { season?: number; episode?: number } {
+  if (type === 'movie') return {};
+  const obj = getObject(id);
+  return { season: Number(obj.season), episode: Number(obj.episode) };
+}
+
 async function getTmdbIdFromImdbId(imdbId: string, tmdbApiKey?: string): Promise<string | null> {
   if (!tmdbApiKey) { 
-    console.error("TMDB_API_KEY is not configured.");
+    log.error("TMDB_API_KEY is not configured.");
     return null;
   }
-  const findUrl = `${TMDB_API_BASE_URL}/find/${imdbId}?api_key=${tmdbApiKey}&external_source=imdb_id`;
-  try {
-    const response = await fetch(findUrl);
-    if (!response.ok) {
-      console.error(`Failed to fetch TMDB ID for ${imdbId}: ${response.status}`);
+  return tmdbIdCache.getOrLoad(imdbId, async () => {
+    const findUrl = `${TMDB_API_BASE_URL}/find/${imdbId}?api_key=${tmdbApiKey}&external_source=imdb_id`;
+    try {
+      const response = await fetchUpstream(findUrl);
+      if (response.status === 404) {
+        log.warn(`IMDb ID ${imdbId} not found on TMDB`);
+        return null;
+      }
+      if (!response.ok) {
+        throw new UpstreamError(new URL(findUrl).host, `Failed to fetch TMDB ID for ${imdbId}: ${response.status}`, response.status);
+      }
+      const data = await response.json();
+      let tmdbId: string | null = null;
+      if (data.movie_results && data.movie_results.length > 0) {
+        tmdbId = data.movie_results[0].id.toString();
+      } else if (data.tv_results && data.tv_results.length > 0) { 
+        tmdbId = data.tv_results[0].id.toString();
+      }
+      if (tmdbId) return tmdbId;
+      log.warn(`No TMDB movie or TV results found for IMDb ID: ${imdbId}`);
+      return null;
+    } catch (error) {
+      // TMDB non raggiungibile: non è un "titolo non trovato", l'errore risale al provider
+      if (error instanceof UpstreamError) throw error;
+      log.error(`Error fetching TMDB ID for ${imdbId}`, { error });
       return null;
     }
-    const data = await response.json();
-    if (data.movie_results && data.movie_results.length > 0) {
-      return data.movie_results[0].id.toString();
-    } else if (data.tv_results && data.tv_results.length > 0) { 
-      return data.tv_results[0].id.toString();
+  });
+}
+
+/**
+ * Scarica la master playlist di VixCloud e restituisce le varianti entro la risoluzione massima.
+ * Se nessuna variante rientra nel limite viene restituita la più bassa disponibile.
+ */
+export async function fetchQualityVariants(masterUrl: string, referer: string, maxResolution?: number): Promise<HlsVariant[]> {
+  try {
+    const response = await fetchUpstream(masterUrl, { headers: { "Referer": referer } });
+    if (!response.ok) {
+      log.error(`Failed to fetch master playlist, status: ${response.status}`);
+      return [];
     }
-    console.warn(`No TMDB movie or TV results found for IMDb ID: ${imdbId}`);
-    return null;
+    const variants = parseMasterPlaylist(await response.text(), masterUrl)
+      .sort((a, b) => (b.height || 0) - (a.height || 0));
+    if (!maxResolution) return variants;
+
+    const allowed = variants.filter(variant => !variant.height || variant.height <= maxResolution);
+    return allowed.length > 0 ? allowed : variants.slice(-1);
   } catch (error) {
-    console.error(`Error fetching TMDB ID for ${imdbId}:`, error);
-    return null;
+    log.error("Error fetching master playlist", { error });
+    return [];
   }
 }
 
-// 1. Aggiungi la funzione di verifica dei TMDB ID
-async function checkTmdbIdOnVixSrc(tmdbId: string, type: ContentType): Promise<boolean> {
-  const vixSrcApiType = type === 'movie' ? 'movie' : 'tv'; // VixSrc usa 'tv' per le serie
-  const listUrl = `${VIXCLOUD_SITE_ORIGIN}/api/list/${vixSrcApiType}?lang=it`;
+export interface VixCloudPlaylist {
+  masterUrl: string;
+  referer: string;
+  /** Scadenza del token della master playlist (ms) */
+  expiresAt: number;
+  pageTitle: string;
+}
 
-  try {
-    console.log(`VIX_CHECK: Checking TMDB ID ${tmdbId} of type ${vixSrcApiType} against VixSrc list: ${listUrl}`);
-    const response = await fetch(listUrl);
-    if (!response.ok) {
-      console.error(`VIX_CHECK: Failed to fetch VixSrc list for type ${vixSrcApiType}, status: ${response.status}`);
-      return false; // Se non possiamo ottenere la lista, assumiamo che non esista per sicurezza
-    }
-    const data = await response.json();
-    // L'API restituisce un array di oggetti, ognuno con una proprietà 'id' che è l'ID TMDB
-    if (data && Array.isArray(data)) {
-      const exists = data.some((item: any) => item.tmdb_id && item.tmdb_id.toString() === tmdbId.toString());
-      console.log(`VIX_CHECK: TMDB ID ${tmdbId} ${exists ? 'found' : 'NOT found'} in VixSrc list.`);
-      return exists;
+/**
+ * Errore di estrazione con un motivo sintetico, usato come etichetta in /metrics
+ */
+export class ExtractionError extends Error {
+  constructor(public readonly reason: string, message: string) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+function failureReason(error: unknown): string {
+  if (error instanceof ExtractionError) return error.reason;
+  return error instanceof UpstreamError ? "upstream_failed" : "unknown";
+}
+
+/**
+ * Scarica la pagina embed (o iframe) di VixCloud ed estrae l'URL della master playlist con token ed expires.
+ * Lancia un errore se la pagina non contiene lo script del player.
+ */
+export function resolveVixCloudPlaylist(url: string): Promise<VixCloudPlaylist> {
+  return playlistResolutions.run(url, () => loadVixCloudPlaylist(url));
+}
+
+async function loadVixCloudPlaylist(url: string): Promise<VixCloudPlaylist> {
+  const siteOrigin = new URL(url).origin;
+  let pageHtml = "";
+  let finalReferer: string = url;
+
+  if (url.includes("/iframe")) { 
+    const version = await fetchVixCloudSiteVersion(siteOrigin);
+    const initialResponse = await fetchUpstream(url, {
+      headers: { 
+        "x-inertia": "true", 
+        "x-inertia-version": version, 
+        "Referer": `${siteOrigin}/`
+      },
+    });
+    if (!initialResponse.ok) throw new ExtractionError("iframe_request_failed", `Initial iframe request failed: ${initialResponse.status}`);
+    const initialHtml = await initialResponse.text();
+    const $initial = cheerio.load(initialHtml);
+    const iframeSrc = $initial("iframe").attr("src");
+
+    if (iframeSrc) {
+      const actualPlayerUrl = new URL(iframeSrc, siteOrigin).toString();
+      const playerResponse = await fetchUpstream(actualPlayerUrl, {
+        headers: { 
+          "x-inertia": "true", 
+          "x-inertia-version": version, 
+          "Referer": url
+        },
+      });
+      if (!playerResponse.ok) throw new ExtractionError("player_request_failed", `Player iframe request failed: ${playerResponse.status}`);
+      pageHtml = await playerResponse.text();
+      finalReferer = actualPlayerUrl; // Now we can modify finalReferer
     } else {
-      console.error(`VIX_CHECK: VixSrc list for type ${vixSrcApiType} is not in the expected format.`);
-      return false;
+      throw new ExtractionError("iframe_src_missing", "Iframe src not found in initial response.");
     }
-  } catch (error) {
-    console.error(`VIX_CHECK: Error checking TMDB ID ${tmdbId} on VixSrc:`, error);
-    return false; // In caso di errore, assumiamo che non esista
+  } else {
+    // Sui domini VixSrc passa dai mirror: failover e redirect verso un nuovo dominio
+    const { response, url: embedUrl } = await vixSrcMirrors.fetch(url);
+    if (!response.ok) throw new ExtractionError("embed_request_failed", `Direct embed request failed: ${response.status}`);
+    pageHtml = await response.text();
+    finalReferer = embedUrl; // Uguale a targetUrl, salvo cambio di mirror
   }
+
+  const $ = cheerio.load(pageHtml);
+  const scriptTag = $("body script").filter((_, el) => {
+    const htmlContent = $(el).html();
+    return !!htmlContent && htmlContent.includes("'token':") && htmlContent.includes("'expires':");
+  }).first();
+  const scriptContent = scriptTag.html() || '';
+
+  if (!scriptContent) throw new ExtractionError("token_script_missing", "Player script with token/expires not found.");
+
+  const tokenMatch = scriptContent.match(/'token':\s*'(\w+)'/);
+  const expiresMatch = scriptContent.match(/'expires':\s*'(\d+)'/);
+  const serverUrlMatch = scriptContent.match(/url:\s*'([^']+)'/);
+
+  if (!tokenMatch || !expiresMatch || !serverUrlMatch) {
+    throw new ExtractionError("token_parse_failed", "Failed to extract token, expires, or server URL from script.");
+  }
+
+  const token = tokenMatch[1];
+  const expires = expiresMatch[1];
+  let serverUrl = serverUrlMatch[1];
+
+  let masterUrl = serverUrl.includes("?b=1")
+    ? `${serverUrl}&token=${token}&expires=${expires}`
+    : `${serverUrl}?token=${token}&expires=${expires}`;
+
+  // Aggiungi &h=1 solo se disponibile
+  if (scriptContent.includes("window.canPlayFHD = true")) {
+    masterUrl += "&h=1";
+  } 
+
+  return { masterUrl, referer: finalReferer, expiresAt: parseInt(expires, 10) * 1000, pageTitle: $("title").text().trim() };
+}
+
+// 1. Aggiungi la funzione di verifica dei TMDB ID
+async function checkTmdbIdOnVixSrc(tmdbId: string, type: ContentType): Promise<boolean> {
+  const vixSrcApiType = type === 'movie' ? 'movie' : 'tv'; // VixSrc usa 'tv' per le serie
+  const exists = await vixSrcIndex.has(vixSrcApiType, tmdbId);
+  log.debug(`TMDB ID ${tmdbId} of type ${vixSrcApiType} ${exists ? 'found' : 'NOT found'} in VixSrc index.`);
+  return exists;
 }
 
 // 2. Modifica la funzione getUrl per rimuovere ?lang=it e aggiungere la verifica
@@ -136,11 +323,11 @@ export async function getUrl(id: string, type: ContentType, config: ExtractorCon
     // Verifica se l'ID TMDB del film esiste su VixSrc
     const existsOnVixSrc = await checkTmdbIdOnVixSrc(tmdbId, type);
     if (!existsOnVixSrc) {
-      console.log(`TMDB ID ${tmdbId} (from IMDB ${imdbIdForMovie}) for movie not found in VixSrc list. Skipping.`);
+      log.info(`TMDB ID ${tmdbId} (from IMDB ${imdbIdForMovie}) for movie not found in VixSrc list. Skipping.`);
       return null;
     }
     
-    return `${VIXCLOUD_SITE_ORIGIN}/movie/${tmdbId}/`; // Rimosso ?lang=it
+    return `${vixSrcMirrors.active}/movie/${tmdbId}/`; // Rimosso ?lang=it
   } else {
     // Series: https://vixsrc.to/tv/tmdbkey/season/episode/
     const obj = getObject(id);
@@ -150,22 +337,38 @@ export async function getUrl(id: string, type: ContentType, config: ExtractorCon
     // Verifica se l'ID TMDB della serie esiste su VixSrc
     const existsOnVixSrc = await checkTmdbIdOnVixSrc(tmdbSeriesId, type);
     if (!existsOnVixSrc) {
-      console.log(`TMDB ID ${tmdbSeriesId} (from IMDB ${obj.id}) for series not found in VixSrc list. Skipping.`);
+      log.info(`TMDB ID ${tmdbSeriesId} (from IMDB ${obj.id}) for series not found in VixSrc list. Skipping.`);
       return null;
     }
     
-    return `${VIXCLOUD_SITE_ORIGIN}/tv/${tmdbSeriesId}/${obj.season}/${obj.episode}/`; // Rimosso ?lang=it
+    return `${vixSrcMirrors.active}/tv/${tmdbSeriesId}/${obj.season}/${obj.episode}/`; // Rimosso ?lang=it
   }
 }
 
-export async function getStreamContent(id: string, type: ContentType, config: ExtractorConfig): Promise<VixCloudStreamInfo[] | null> {
+// Titolo usato quando né TMDB né la pagina VixSrc ne forniscono uno
+function fallbackTitle(type: ContentType): string {
+  return type === 'movie' ? 'Movie Stream' : 'Series Stream';
+}
+
+/**
+ * Stream VixSrc per un ID IMDb. Richieste concorrenti per lo stesso ID e la stessa configurazione
+ * condividono un'unica estrazione (TMDB, pagina embed, MediaFlow).
+ * Restituisce null se il titolo non è disponibile; lancia UpstreamError se TMDB o VixSrc non rispondono.
+ */
+export function getStreamContent(id: string, type: ContentType, config: ExtractorConfig): Promise<VixCloudStreamInfo[] | null> {
+  const key = createHash("sha1").update(JSON.stringify([id.trim(), type, config])).digest("hex");
+  return streamContentLoads.run(key, () => loadStreamContent(id, type, config));
+}
+
+async function loadStreamContent(id: string, type: ContentType, config: ExtractorConfig): Promise<VixCloudStreamInfo[] | null> {
   // Log config safely without exposing password
-  console.log(`Extracting stream for ${id} (${type}) with config:`, { ...config, mfpPsw: config.mfpPsw ? '***' : undefined });
+  log.info(`Extracting stream for ${id} (${type})`, { config });
   
   // First, get the target URL on vixsrc.to (this is needed for both proxy and direct modes)
   const targetUrl = await getUrl(id, type, config);
   if (!targetUrl) {
-    console.error(`Could not generate target URL for ${id} (${type})`);
+    log.error(`Could not generate target URL for ${id} (${type})`);
+    extractorFailures.inc({ provider: "vixsrc", reason: "target_url_missing" });
     return null;
   }
 
@@ -174,18 +377,20 @@ export async function getStreamContent(id: string, type: ContentType, config: Ex
     const tmdbId = await getTmdbIdFromImdbId(imdbId, tmdbApiKey);
     if (!tmdbId) return null;
     const movieDetailsUrl = `${TMDB_API_BASE_URL}/movie/${tmdbId}?api_key=${tmdbApiKey}&language=it`;
-    try {
-      const response = await fetch(movieDetailsUrl);
-      if (!response.ok) {
-        console.error(`Error fetching movie title for TMDB ID ${tmdbId}: ${response.status}`);
+    return tmdbTitleCache.getOrLoad(`movie:${tmdbId}`, async () => {
+      try {
+        const response = await fetchUpstream(movieDetailsUrl);
+        if (!response.ok) {
+          log.error(`Error fetching movie title for TMDB ID ${tmdbId}: ${response.status}`);
+          return null;
+        }
+        const data = await response.json();
+        return data.title || null;
+      } catch (error) {
+        log.error("Error fetching movie title", { error });
         return null;
       }
-      const data = await response.json();
-      return data.title || null;
-    } catch (error) {
-      console.error("Error fetching movie title:", error);
-      return null;
-    }
+    });
   }
 
   // Helper function to fetch series title from TMDB
@@ -193,40 +398,35 @@ export async function getStreamContent(id: string, type: ContentType, config: Ex
     const tmdbId = await getTmdbIdFromImdbId(imdbId.split(':')[0], tmdbApiKey); // Use base IMDB ID for series
     if (!tmdbId) return null;
     const seriesDetailsUrl = `${TMDB_API_BASE_URL}/tv/${tmdbId}?api_key=${tmdbApiKey}&language=it`;
-    try {
-      const response = await fetch(seriesDetailsUrl);
-      if (!response.ok) {
-        console.error(`Error fetching series title for TMDB ID ${tmdbId}: ${response.status}`);
+    return tmdbTitleCache.getOrLoad(`tv:${tmdbId}`, async () => {
+      try {
+        const response = await fetchUpstream(seriesDetailsUrl);
+        if (!response.ok) {
+          log.error(`Error fetching series title for TMDB ID ${tmdbId}: ${response.status}`);
+          return null;
+        }
+        const data = await response.json();
+        return data.name || null;
+      } catch (error) {
+        log.error("Error fetching series title", { error });
         return null;
       }
-      const data = await response.json();
-      return data.name || null;
-    } catch (error) {
-      console.error("Error fetching series title:", error);
-      return null;
-    }
+    });
   }
 
   // Funzione per ottenere il proxy stream
   async function getProxyStream(url: string, id: string, type: ContentType, config: ExtractorConfig): Promise<VixCloudStreamInfo | null> {
-    const { mfpUrl, mfpPsw, bothLink, tmdbApiKey } = config;
-    if (!mfpUrl || !mfpPsw) {
+    const { mfpUrl, mfpPsw, bothLink, tmdbApiKey, builtinProxyUrl } = config;
+    const useBuiltinProxy = (!mfpUrl || !mfpPsw) && !!builtinProxyUrl;
+    if (!useBuiltinProxy && (!mfpUrl || !mfpPsw)) {
       // Se BOTHLINK è true ma manca il proxy, restituisci un placeholder
       if (bothLink) {
         const tmdbApiTitle = type === 'movie' ? await getMovieTitle(id, tmdbApiKey) : await getSeriesTitle(id, tmdbApiKey);
-        let fallbackName = 'Proxy Missing';
-        
-        if (tmdbApiTitle) {
-          fallbackName = tmdbApiTitle;
-          if (type !== 'movie') {
-            const obj = getObject(id);
-            fallbackName += ` (S${obj.season}E${obj.episode})`;
-          }
-          fallbackName += ' (Proxy Missing)';
-        }
         
         return {
-          name: fallbackName,
+          title: tmdbApiTitle || fallbackTitle(type),
+          ...episodeInfo(id, type),
+          details: 'Proxy Missing',
           streamUrl: '', // URL vuoto per indicare che il proxy manca
           referer: url,
           source: 'proxy'
@@ -235,9 +435,28 @@ export async function getStreamContent(id: string, type: ContentType, config: Ex
       return null;
     }
 
-    const cleanedMfpUrl = mfpUrl.endsWith('/') ? mfpUrl.slice(0, -1) : mfpUrl;
-    const proxyStreamUrl = `${cleanedMfpUrl}/extractor/video?host=VixCloud&redirect_stream=true&api_password=${mfpPsw}&d=${encodeURIComponent(url)}`;    
-    console.log(`Proxy mode active. Generated proxy URL for ${id}: ${proxyStreamUrl}`);
+    // Proxy integrato: estraiamo noi la master playlist e la serviamo tramite /proxy/hls con gli header richiesti
+    async function getBuiltinProxyUrl(baseUrl: string): Promise<string | null> {
+      try {
+        const { masterUrl, referer } = await resolveVixCloudPlaylist(url);
+        return buildProxyUrl(baseUrl, 'hls', masterUrl, {
+          "Referer": referer,
+          "Origin": new URL(referer).origin
+        });
+      } catch (error) {
+        log.error(`Built-in proxy extraction failed for ${id}`, { error });
+        extractorFailures.inc({ provider: "vixsrc", reason: failureReason(error) });
+        if (error instanceof UpstreamError) throw error;
+        return null;
+      }
+    }
+
+    function buildMediaFlowExtractorUrl(): string {
+      const cleanedMfpUrl = mfpUrl!.endsWith('/') ? mfpUrl!.slice(0, -1) : mfpUrl!;
+      const proxyStreamUrl = `${cleanedMfpUrl}/extractor/video?host=VixCloud&redirect_stream=true&api_password=${mfpPsw}&d=${encodeURIComponent(url)}`;
+      log.debug(`Proxy mode active. Generated proxy URL for ${id}: ${proxyStreamUrl}`);
+      return proxyStreamUrl;
+    }
 
     // Nuova funzione asincrona per ottenere l'URL m3u8 finale
     async function getActualStreamUrl(proxyUrl: string): Promise<string> {
@@ -245,16 +464,17 @@ export async function getStreamContent(id: string, type: ContentType, config: Ex
         // In modalità "debug" non seguiamo i reindirizzamenti e otteniamo l'URL m3u8 dalla risposta JSON
         const debugUrl = proxyUrl.replace('redirect_stream=true', 'redirect_stream=false');
         
-        console.log(`Fetching stream URL from: ${debugUrl}`);
-        const response = await fetch(debugUrl);
+        log.debug(`Fetching stream URL from: ${debugUrl}`);
+        const response = await fetchUpstream(debugUrl);
         
         if (!response.ok) {
-          console.error(`Failed to fetch stream details: ${response.status}`);
+          log.error(`Failed to fetch stream details: ${response.status}`);
+          extractorFailures.inc({ provider: "vixsrc", reason: "mediaflow_request_failed" });
           return proxyUrl; // Fallback al proxy URL originale
         }
         
         const data = await response.json();
-        console.log(`MFP Response:`, data);
+        log.debug(`MFP Response`, { data });
         
         // CORREZIONE: usa mediaflow_proxy_url invece di stream_url
         if (data && data.mediaflow_proxy_url) {
@@ -290,46 +510,33 @@ export async function getStreamContent(id: string, type: ContentType, config: Ex
             }
           }
           
-          console.log(`Extracted proxy m3u8 URL: ${finalUrl}`);
+          log.debug(`Extracted proxy m3u8 URL: ${finalUrl}`);
           return finalUrl;
         } else {
-          console.warn(`Couldn't find mediaflow_proxy_url in MFP response, using proxy URL`);
+          log.warn(`Couldn't find mediaflow_proxy_url in MFP response, using proxy URL`);
           return proxyUrl; // Fallback al proxy URL originale
         }
       } catch (error) {
-        console.error(`Error extracting m3u8 URL: ${error}`);
+        log.error(`Error extracting m3u8 URL`, { error });
+        extractorFailures.inc({ provider: "vixsrc", reason: "mediaflow_request_failed" });
         return proxyUrl; // Fallback al proxy URL originale
       }
     }
 
-    // Ottieni il titolo dalla TMDB API
+    // Ottieni l'URL m3u8 finale e, in parallelo, il titolo dalla TMDB API
+    const streamUrlPromise: Promise<string | null> = useBuiltinProxy
+      ? getBuiltinProxyUrl(builtinProxyUrl!)
+      : getActualStreamUrl(buildMediaFlowExtractorUrl());
     const tmdbApiTitle = type === 'movie' ? await getMovieTitle(id, tmdbApiKey) : await getSeriesTitle(id, tmdbApiKey);
-
-    // Determina il nome finale per il proxy stream
-    let finalNameForProxy: string;
-    if (tmdbApiTitle) { // Titolo TMDB trovato
-      finalNameForProxy = tmdbApiTitle;
-      if (type !== 'movie') { // È una serie, aggiungi Stagione/Episodio
-        const obj = getObject(id);
-        finalNameForProxy += ` (S${obj.season}E${obj.episode})`;
-      }
-      finalNameForProxy += ' (Proxy)'; // Aggiungi sempre (Proxy)
-    } else { // Titolo TMDB non trovato, usa il fallback
-      if (type === 'movie') {
-        finalNameForProxy = 'Movie Stream (Proxy)';
-      } else { // Serie
-        const obj = getObject(id);
-        // Per richiesta utente, anche i titoli di fallback delle serie dovrebbero avere S/E
-        finalNameForProxy = `Series Stream (Proxy) (S${obj.season}E${obj.episode})`;
-      }
-    }
     
-    // Ottieni l'URL m3u8 finale
-    const finalStreamUrl = await getActualStreamUrl(proxyStreamUrl);
-    console.log(`Final m3u8 URL: ${finalStreamUrl}`);
+    const finalStreamUrl = await streamUrlPromise;
+    if (!finalStreamUrl) return null;
+    log.debug(`Final m3u8 URL: ${finalStreamUrl}`);
     
+    // Titolo TMDB o, se non trovato, un titolo generico; stagione/episodio e "(Proxy)" li aggiunge il template
     return { 
-      name: finalNameForProxy, 
+      title: tmdbApiTitle || fallbackTitle(type),
+      ...episodeInfo(id, type),
       streamUrl: finalStreamUrl, 
       referer: url, 
       source: 'proxy' 
@@ -337,94 +544,23 @@ export async function getStreamContent(id: string, type: ContentType, config: Ex
   }
 
   // Funzione per ottenere il direct stream
-  async function getDirectStream(url: string, id: string, type: ContentType, config: ExtractorConfig): Promise<VixCloudStreamInfo | null> {
-    // The 'url' parameter is guaranteed to be a string, so no more null checks needed here.
-    const siteOrigin = new URL(url).origin;
-    let pageHtml = "";
-    let finalReferer: string = url;
-
+  async function getDirectStream(url: string, id: string, type: ContentType, config: ExtractorConfig): Promise<VixCloudStreamInfo[]> {
     try {
-      if (url.includes("/iframe")) { 
-        const version = await fetchVixCloudSiteVersion(siteOrigin);
-        const initialResponse = await fetch(url, {
-          headers: { 
-            "x-inertia": "true", 
-            "x-inertia-version": version, 
-            "Referer": `${siteOrigin}/`
-          },
-        });
-        if (!initialResponse.ok) throw new Error(`Initial iframe request failed: ${initialResponse.status}`);
-        const initialHtml = await initialResponse.text();
-        const $initial = cheerio.load(initialHtml);
-        const iframeSrc = $initial("iframe").attr("src");
-
-        if (iframeSrc) {
-          const actualPlayerUrl = new URL(iframeSrc, siteOrigin).toString();
-          const playerResponse = await fetch(actualPlayerUrl, {
-            headers: { 
-              "x-inertia": "true", 
-              "x-inertia-version": version, 
-              "Referer": url
-            },
-          });
-          if (!playerResponse.ok) throw new Error(`Player iframe request failed: ${playerResponse.status}`);
-          pageHtml = await playerResponse.text();
-          finalReferer = actualPlayerUrl; // Now we can modify finalReferer
-        } else {
-          throw new Error("Iframe src not found in initial response.");
-        }
-      } else {
-        const response = await fetch(url); 
-        if (!response.ok) throw new Error(`Direct embed request failed: ${response.status}`);
-        pageHtml = await response.text();
-        // Non modificare finalReferer qui, rimane targetUrl
-      }
-
-      const $ = cheerio.load(pageHtml);
-      const scriptTag = $("body script").filter((_, el) => {
-        const htmlContent = $(el).html();
-        return !!htmlContent && htmlContent.includes("'token':") && htmlContent.includes("'expires':");
-      }).first();
-      const scriptContent = scriptTag.html() || '';
-
-      if (!scriptContent) throw new Error("Player script with token/expires not found.");
-
-      const tokenMatch = scriptContent.match(/'token':\s*'(\w+)'/);
-      const expiresMatch = scriptContent.match(/'expires':\s*'(\d+)'/);
-      const serverUrlMatch = scriptContent.match(/url:\s*'([^']+)'/);
-
-      if (!tokenMatch || !expiresMatch || !serverUrlMatch) {
-        throw new Error("Failed to extract token, expires, or server URL from script.");
-      }
-
-      const token = tokenMatch[1];
-      const expires = expiresMatch[1];
-      let serverUrl = serverUrlMatch[1];
-
-      let finalStreamUrl = serverUrl.includes("?b=1")
-        ? `${serverUrl}&token=${token}&expires=${expires}`
-        : `${serverUrl}?token=${token}&expires=${expires}`;
-
-      // Aggiungi &h=1 solo se disponibile
-      if (scriptContent.includes("window.canPlayFHD = true")) {
-        finalStreamUrl += "&h=1";
-      } 
+      // Estrazione della playlist e titolo TMDB in parallelo
+      const [{ masterUrl: finalStreamUrl, referer: finalReferer, pageTitle }, tmdbTitle] = await Promise.all([
+        resolveVixCloudPlaylist(url),
+        type === 'movie' ? getMovieTitle(id, config.tmdbApiKey) : getSeriesTitle(id, config.tmdbApiKey)
+      ]);
 
       // --- Inizio della nuova logica per il titolo ---
 
       // 1. Ottieni il titolo di base, dando priorità a TMDB
-      let baseTitle: string | null = null;
-
-      // Prima prova a ottenere il titolo dalle API TMDB
-      baseTitle = type === 'movie' ? 
-        await getMovieTitle(id, config.tmdbApiKey) : 
-        await getSeriesTitle(id, config.tmdbApiKey);
+      let baseTitle: string | null = tmdbTitle;
       
-      console.log(`TMDB title result: "${baseTitle}"`);
+      log.debug(`TMDB title result: "${baseTitle}"`);
     
       // Solo se TMDB fallisce, prova a usare il titolo dalla pagina
       if (!baseTitle) {
-        const pageTitle = $("title").text().trim();
         // Pulisci ulteriormente il titolo rimuovendo parti comuni nei siti di streaming
         if (pageTitle) {
           baseTitle = pageTitle
@@ -433,49 +569,50 @@ export async function getStreamContent(id: string, type: ContentType, config: Ex
             .replace(" - Streaming", "")
             .replace(/\s*\|\s*.*$/, ""); // Rimuove qualsiasi cosa dopo il simbolo |
         }
-        console.log(`Page title after cleanup: "${baseTitle}"`);
+        log.debug(`Page title after cleanup: "${baseTitle}"`);
       }
 
-      // 2. Determina il nome finale, gestendo esplicitamente il caso null
-      let determinedName: string;
-      if (baseTitle) {
-        // Se abbiamo un titolo, ora siamo sicuri che sia una stringa.
-        if (type === 'movie') {
-          determinedName = baseTitle;
-        } else { // È una serie, aggiungi info S/E
-          const obj = getObject(id);
-          determinedName = `${baseTitle} (S${obj.season}E${obj.episode})`;
-        }
-      } else {
-        // Se non abbiamo un titolo (baseTitle è null), usiamo un nome di fallback.
-        if (type === 'movie') {
-          determinedName = 'Movie Stream (Direct)';
-        } else { // È una serie
-          const obj = getObject(id);
-          // Per richiesta utente, anche i titoli di fallback delle serie dovrebbero avere S/E
-          determinedName = `Series Stream (Direct) (S${obj.season}E${obj.episode})`;
-        }
+      // 2. Titolo finale: stagione, episodio e tipo di link vengono aggiunti dal template
+      const determinedTitle = baseTitle || fallbackTitle(type);
+      log.debug(`Final stream title: "${determinedTitle}"`);
+      log.debug(`Final stream URL: "${finalStreamUrl}"`);
+
+      // Un flusso per ogni qualità della master playlist; se non è leggibile usiamo la master stessa
+      const variants = await fetchQualityVariants(finalStreamUrl, finalReferer, config.maxResolution);
+      if (variants.length === 0) {
+        return [{
+          title: determinedTitle,
+          ...episodeInfo(id, type),
+          streamUrl: finalStreamUrl,
+          referer: finalReferer,
+          source: 'direct',
+          pageUrl: url
+        }];
       }
-      
-      console.log(`Final stream name: "${determinedName}"`);
-      console.log(`Final stream URL: "${finalStreamUrl}"`); // Aggiungi questo log per l'URL
 
-      return {
-        name: determinedName,
-        streamUrl: finalStreamUrl,
+      return variants.map(variant => ({
+        title: determinedTitle,
+        ...episodeInfo(id, type),
+        details: describeVariant(variant),
+        streamUrl: variant.url,
         referer: finalReferer,
-        source: 'direct'
-      };
+        source: 'direct' as const,
+        quality: variant.height ? `${variant.height}p` : undefined,
+        height: variant.height || undefined,
+        pageUrl: url
+      }));
 
     } catch (error) {
       let message = "Unknown error during stream content extraction";
       if (error instanceof Error) {
         message = error.message;
       }
-      console.error(`Stream extraction error: ${message}`, error);
+      log.error(`Stream extraction error: ${message}`, { error });
+      extractorFailures.inc({ provider: "vixsrc", reason: failureReason(error) });
+      if (error instanceof UpstreamError) throw error;
       
-      // Ritorna null invece di un oggetto con URL HTML
-      return null;
+      // Ritorna una lista vuota invece di un oggetto con URL HTML
+      return [];
     }
   }
 
@@ -484,25 +621,31 @@ export async function getStreamContent(id: string, type: ContentType, config: Ex
 
   if (config.bothLink) {
     // Se BOTHLINK è true, ottieni entrambi i stream
-    console.log('BOTHLINK mode: fetching both proxy and direct streams');
-    
-    const proxyStream = await getProxyStream(targetUrl, id, type, config);
-    const directStream = await getDirectStream(targetUrl, id, type, config);
+    log.info('BOTHLINK mode: fetching both proxy and direct streams');
     
-    if (proxyStream) results.push(proxyStream);
-    if (directStream) results.push(directStream);
+    const [proxyResult, directResult] = await Promise.allSettled([
+      getProxyStream(targetUrl, id, type, config),
+      getDirectStream(targetUrl, id, type, config)
+    ]);
     
-    return results.length > 0 ? results : null;
+    if (proxyResult.status === 'fulfilled' && proxyResult.value) results.push(proxyResult.value);
+    if (directResult.status === 'fulfilled') results.push(...directResult.value);
+    if (results.length > 0) return results;
+
+    // Nessuno stream: se una delle due estrazioni è fallita per un servizio esterno lo segnaliamo
+    const failure = [proxyResult, directResult].find(result => result.status === 'rejected');
+    if (failure?.status === 'rejected') throw failure.reason;
+    return null;
   } else {
     // Logica originale: proxy se configurato, altrimenti direct
-    if (config.mfpUrl && config.mfpPsw) {
-      // --- Proxy Mode ---
+    if ((config.mfpUrl && config.mfpPsw) || config.builtinProxyUrl) {
+      // --- Proxy Mode (MediaFlow o proxy integrato) ---
       const proxyStream = await getProxyStream(targetUrl, id, type, config);
       return proxyStream ? [proxyStream] : null;
     } else {
       // --- Direct Extraction Mode (if proxy not configured) ---
-      const directStream = await getDirectStream(targetUrl, id, type, config);
-      return directStream ? [directStream] : null;
+      const directStreams = await getDirectStream(targetUrl, id, type, config);
+      return directStreams.length > 0 ? directStreams : null;
     }
   }
 }
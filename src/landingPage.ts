@@ -98,6 +98,11 @@ button:active {
 	box-shadow: 0 0 0 0.5vh white inset;
 }
 
+button:disabled {
+	opacity: 0.5;
+	cursor: not-allowed;
+}
+
 #addon {
 	width: 40vh;
 	margin: auto;
@@ -163,6 +168,45 @@ button:active {
 .full-width {
 	width: 100%;
 }
+
+fieldset.config-group {
+	border: 1px solid rgba(255, 255, 255, 0.3);
+	padding: 1.5vh 2vh 0 2vh;
+	margin: 0 0 2vh 0;
+}
+
+fieldset.config-group legend {
+	padding: 0 1vh;
+	font-weight: 600;
+}
+
+.field-description {
+	font-size: 1.4vh;
+	opacity: 0.8;
+	margin-top: 0.5vh;
+}
+
+#verifyResults, #configErrors {
+	list-style: none;
+	padding-left: 0;
+	margin-bottom: 2vh;
+}
+
+#verifyResults li {
+	margin-bottom: 0.5vh;
+}
+
+.check-ok {
+	color: #81c784;
+}
+
+.check-error {
+	color: #ef9a9a;
+}
+
+.check-skipped {
+	opacity: 0.7;
+}
 `
 
 function landingTemplate(manifest: any) {
@@ -180,44 +224,63 @@ function landingTemplate(manifest: any) {
 	let formHTML = ''
 	let script = ''
 
+	// Descrizione e valore predefinito mostrati sotto ogni campo
+	const describe = (elem: any) => {
+		const notes = []
+		if (elem.description) notes.push(elem.description)
+		if (elem.type === 'checkbox') notes.push('Predefinito: ' + (elem.default === 'checked' ? 'attivo' : 'disattivo'))
+		else if (elem.default) notes.push('Predefinito: ' + elem.default)
+		return notes.length ? `<div class="field-description">${notes.join(' · ')}</div>` : ''
+	}
+
+	const renderField = (elem: any) => {
+		const key = elem.key
+		if (['text', 'number', 'password'].includes(elem.type)) {
+			const isRequired = elem.required ? ' required' : ''
+			const defaultHTML = elem.default ? ` value="${elem.default}"` : ''
+			const inputType = elem.type
+			return `
+			<div class="form-element">
+				<div class="label-to-top">${elem.title}</div>
+				<input type="${inputType}" id="${key}" name="${key}" class="full-width"${defaultHTML}${isRequired}/>
+				${describe(elem)}
+			</div>
+			`
+		} else if (elem.type === 'checkbox') {
+			const isChecked = elem.default === 'checked' ? ' checked' : ''
+			return `
+			<div class="form-element">
+				<label for="${key}">
+					<input type="checkbox" id="${key}" name="${key}"${isChecked}> <span class="label-to-right">${elem.title}</span>
+				</label>
+				${describe(elem)}
+			</div>
+			`
+		} else if (elem.type === 'select') {
+			const defaultValue = elem.default || (elem.options || [])[0]
+			const selections = (elem.options || [])
+				.map((el: string) => `<option value="${el}"${el === defaultValue ? ' selected' : ''}>${el}</option>`)
+				.join('')
+			return `<div class="form-element">
+			<div class="label-to-top">${elem.title}</div>
+			<select id="${key}" name="${key}" class="full-width">${selections}</select>
+			${describe(elem)}
+			</div>
+			`
+		}
+		return ''
+	}
+
 	if ((manifest.config || []).length) {
-		let options = ''
+		// Campi raggruppati per sezione (generale, proxy, un gruppo per provider) nell'ordine del manifest
+		const groups = new Map<string, string>()
 		manifest.config.forEach((elem: any) => {
-			const key = elem.key
-			if (['text', 'number', 'password'].includes(elem.type)) {
-				const isRequired = elem.required ? ' required' : ''
-				const defaultHTML = elem.default ? ` value="${elem.default}"` : ''
-				const inputType = elem.type
-				options += `
-				<div class="form-element">
-					<div class="label-to-top">${elem.title}</div>
-					<input type="${inputType}" id="${key}" name="${key}" class="full-width"${defaultHTML}${isRequired}/>
-				</div>
-				`
-			} else if (elem.type === 'checkbox') {
-				const isChecked = elem.default === 'checked' ? ' checked' : ''
-				options += `
-				<div class="form-element">
-					<label for="${key}">
-						<input type="checkbox" id="${key}" name="${key}"${isChecked}> <span class="label-to-right">${elem.title}</span>
-					</label>
-				</div>
-				`
-			} else if (elem.type === 'select') {
-				const defaultValue = elem.default || (elem.options || [])[0]
-				options += `<div class="form-element">
-				<div class="label-to-top">${elem.title}</div>
-				<select id="${key}" name="${key}" class="full-width">
-				`
-				const selections = elem.options || []
-				selections.forEach((el: string) => {
-					const isSelected = el === defaultValue ? ' selected' : ''
-					options += `<option value="${el}"${isSelected}>${el}</option>`
-				})
-				options += `</select>
-               </div>
-               `
-			}
+			const group = elem.group || 'Generale'
+			groups.set(group, (groups.get(group) || '') + renderField(elem))
+		})
+		let options = ''
+		groups.forEach((fields, group) => {
+			if (fields) options += `<fieldset class="config-group"><legend>${group}</legend>${fields}</fieldset>`
 		})
 		if (options.length) {
 			formHTML = `
@@ -225,17 +288,141 @@ function landingTemplate(manifest: any) {
 				${options}
 			</form>
 
+			<ul id="configErrors"></ul>
+
+			<button type="button" id="verifyButton" style="margin-bottom: 2vh;">VERIFICA</button>
+			<ul id="verifyResults"></ul>
+
 			<div class="separator"></div>
 			`
 			script += `
-			installLink.onclick = () => {
-				return mainForm.reportValidity()
+			// Installazione e copia restano disattivate finché il server non ha accettato la configurazione
+			const setLinksEnabled = (enabled) => {
+				installLink.querySelector('button').disabled = !enabled
+				document.getElementById('copyManifestLink').disabled = !enabled
+			}
+			const showConfigErrors = (issues) => {
+				configErrors.innerHTML = issues.map((issue) => '<li class="check-error">❌ ' + escapeHTML(issue) + '</li>').join('')
 			}
-			const updateLink = () => {
+			setLinksEnabled(false)
+			// Token della configurazione cifrata generato dal server
+			let configPath = ''
+			// Con l'archivio attivo il server crea un codice breve, ma solo per il link effettivamente installato o copiato
+			let shortLinks = false
+			let shortCode = ''
+			const resolveConfigPath = async () => {
+				if (!shortLinks) return configPath
+				if (!shortCode) {
+					const token = configPath
+					let code = ''
+					try {
+						const response = await fetch('/api/config/short', {
+							method: 'POST',
+							headers: { 'Content-Type': 'application/json' },
+							body: JSON.stringify({ token })
+						})
+						if (response.ok) code = (await response.json()).code || ''
+					} catch (err) {
+						console.error('Errore durante la creazione del codice breve: ', err)
+					}
+					// Il form può essere cambiato nel frattempo: il codice vale solo per il token richiesto
+					if (token !== configPath) return code || token
+					shortCode = code
+				}
+				return shortCode || configPath
+			}
+			installLink.onclick = (event) => {
+				event.preventDefault()
+				if (!configPath || !mainForm.reportValidity()) return
+				resolveConfigPath().then((path) => {
+					window.location.href = 'stremio://' + window.location.host + '/' + path + '/manifest.json'
+				})
+			}
+			// Token da cui è stata aperta la pagina: il server ne riprende i segreti rimandati mascherati
+			let sourceToken = ''
+			const withSource = (url) => sourceToken ? url + '?from=' + encodeURIComponent(sourceToken) : url
+			// Modifiche ravvicinate possono far arrivare le risposte fuori ordine: vale solo quella dell'ultima richiesta
+			let updateSequence = 0
+			const updateLink = async () => {
 				const config = Object.fromEntries(new FormData(mainForm))
-				installLink.href = 'stremio://' + window.location.host + '/' + encodeURIComponent(JSON.stringify(config)) + '/manifest.json'
+				const sequence = ++updateSequence
+				// Finché il nuovo token non arriva, i link puntano ancora alla configurazione precedente
+				configPath = ''
+				shortCode = ''
+				setLinksEnabled(false)
+				try {
+					const response = await fetch(withSource('/api/config'), {
+						method: 'POST',
+						headers: { 'Content-Type': 'application/json' },
+						body: JSON.stringify(config)
+					})
+					const data = await response.json()
+					if (sequence !== updateSequence) return
+					if (!response.ok) {
+						configPath = ''
+						showConfigErrors(data.issues || [data.error || 'Configurazione non valida'])
+					} else {
+						configPath = data.token || ''
+						shortLinks = !!data.shortLinks
+						showConfigErrors(configPath ? [] : ['Il server non ha restituito un link di installazione'])
+					}
+				} catch (err) {
+					if (sequence !== updateSequence) return
+					console.error('Errore durante la creazione del token: ', err)
+					configPath = ''
+					showConfigErrors(['Impossibile salvare la configurazione, riprova'])
+				}
+				// Mai il manifest senza configurazione: l'utente installerebbe l'addon senza le sue impostazioni
+				installLink.href = configPath ? 'stremio://' + window.location.host + '/' + configPath + '/manifest.json' : '#'
+				setLinksEnabled(!!configPath)
+			}
+			// Da /<token>/configure: precompila il form con la configurazione esistente
+			const restoreConfig = async () => {
+				const parts = window.location.pathname.split('/').filter(Boolean)
+				if (parts.length !== 2 || parts[1] !== 'configure') return
+				try {
+					const response = await fetch('/api/config/' + encodeURIComponent(parts[0]))
+					if (!response.ok) return
+					const { config } = await response.json()
+					sourceToken = parts[0]
+					Object.entries(config).forEach(([key, value]) => {
+						const field = mainForm.elements[key]
+						if (!field) return
+						if (field.type === 'checkbox') field.checked = value === 'on'
+						else field.value = value
+					})
+				} catch (err) {
+					console.error('Errore durante il caricamento della configurazione: ', err)
+				}
 			}
 			mainForm.onchange = updateLink
+			// Verifica chiave TMDB, MediaFlow e AnimeUnity con i valori attuali del form
+			const escapeHTML = (value) => String(value).replace(/[&<>"']/g, (c) => '&#' + c.charCodeAt(0) + ';')
+			const CHECK_ICONS = { ok: '✅', error: '❌', skipped: '➖' }
+			verifyButton.onclick = async () => {
+				verifyButton.disabled = true
+				verifyResults.innerHTML = '<li>Verifica in corso...</li>'
+				try {
+					const response = await fetch(withSource('/api/config/verify'), {
+						method: 'POST',
+						headers: { 'Content-Type': 'application/json' },
+						body: JSON.stringify(Object.fromEntries(new FormData(mainForm)))
+					})
+					const data = await response.json()
+					if (!response.ok) {
+						verifyResults.innerHTML = (data.issues || [data.error]).map((issue) => '<li class="check-error">❌ ' + escapeHTML(issue) + '</li>').join('')
+						return
+					}
+					verifyResults.innerHTML = data.checks.map((check) =>
+						'<li class="check-' + check.status + '">' + CHECK_ICONS[check.status] + ' <strong>' + escapeHTML(check.name) + '</strong>: ' + escapeHTML(check.detail) + '</li>'
+					).join('')
+				} catch (err) {
+					console.error('Errore durante la verifica: ', err)
+					verifyResults.innerHTML = '<li class="check-error">❌ Verifica non riuscita</li>'
+				} finally {
+					verifyButton.disabled = false
+				}
+			}
 			`
 		}
 	}
@@ -248,10 +435,10 @@ function landingTemplate(manifest: any) {
 			copyManifestLink.onclick = async () => {
 				let manifestUrl;
 				const mainForm = document.getElementById('mainForm');
-				// Se il form di configurazione esiste, costruisci l'URL con i suoi dati
+				// Se il form di configurazione esiste, usa il token generato dal server
 				if (mainForm) {
-					const config = Object.fromEntries(new FormData(mainForm));
-					manifestUrl = window.location.protocol + '//' + window.location.host + '/' + encodeURIComponent(JSON.stringify(config)) + '/manifest.json';
+					if (!configPath) return;
+					manifestUrl = window.location.protocol + '//' + window.location.host + '/' + (await resolveConfigPath()) + '/manifest.json';
 				} else {
 					// Altrimenti, usa l'URL del manifest di base
 					manifestUrl = window.location.protocol + '//' + window.location.host + '/manifest.json';
@@ -311,7 +498,7 @@ function landingTemplate(manifest: any) {
 			${script}
 
 			if (typeof updateLink === 'function')
-			updateLink()
+			restoreConfig().then(updateLink)
 			else
 			installLink.href = 'stremio://' + window.location.host + '/manifest.json'
 		</script>
@@ -0,0 +1,78 @@
+import express, { Request, Response } from 'express';
+import { resolveVixCloudPlaylist, fetchQualityVariants, vixSrcMirrors } from './extractor';
+import { TtlCache } from './utils/cache';
+import { createLogger } from './utils/logger';
+import { SingleFlight } from './utils/single-flight';
+
+const log = createLogger('play');
+
+// Un link che scade entro questo margine non viene riusato: il player deve fare in tempo a caricarlo
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+const VIXSRC_PAGE_PATH = /^\/(movie|tv)\//;
+
+// URL con token già risolti, validi fino al loro `expires`
+const resolvedUrls = new TtlCache<string>({ maxEntries: 2000, defaultTtlMs: 60 * 1000 });
+const pendingResolutions = new SingleFlight<string>();
+
+/**
+ * URL stabile da restituire a Stremio al posto del link con token: il token viene
+ * richiesto solo quando l'utente avvia la riproduzione.
+ * @param height variante HLS da riselezionare; senza, si usa la master playlist
+ */
+export function buildPlayUrl(publicBaseUrl: string, pageUrl: string, height?: number): string {
+  const params = new URLSearchParams({ src: pageUrl });
+  if (height) params.set('h', String(height));
+  return `${publicBaseUrl}/play/vixsrc/playlist.m3u8?${params.toString()}`;
+}
+
+function isVixSrcPage(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return vixSrcMirrors.has(url.origin) && VIXSRC_PAGE_PATH.test(url.pathname);
+  } catch {
+    return false;
+  }
+}
+
+async function resolvePlayUrl(pageUrl: string, height?: number): Promise<string> {
+  const cacheKey = `${pageUrl}|${height || ''}`;
+  const cached = resolvedUrls.get(cacheKey);
+  if (cached) return cached;
+  return pendingResolutions.run(cacheKey, () => loadPlayUrl(cacheKey, pageUrl, height));
+}
+
+async function loadPlayUrl(cacheKey: string, pageUrl: string, height?: number): Promise<string> {
+  const { masterUrl, referer, expiresAt } = await resolveVixCloudPlaylist(pageUrl);
+  let url = masterUrl;
+  if (height) {
+    const variants = await fetchQualityVariants(masterUrl, referer);
+    url = variants.find(variant => variant.height === height)?.url || masterUrl;
+  }
+
+  const ttlMs = expiresAt - EXPIRY_MARGIN_MS - Date.now();
+  if (ttlMs > 0) resolvedUrls.set(cacheKey, url, ttlMs);
+  return url;
+}
+
+/**
+ * /play/vixsrc/playlist.m3u8?src=<pagina embed>&h=<altezza>: risolve un link con token valido e reindirizza
+ */
+export const playRouter = express.Router();
+
+playRouter.get('/play/vixsrc/:name', async (req: Request, res: Response) => {
+  const { src, h } = req.query;
+  if (typeof src !== 'string' || !isVixSrcPage(src)) {
+    res.status(400).send('Invalid play request');
+    return;
+  }
+  const height = typeof h === 'string' && /^\d+$/.test(h) ? parseInt(h, 10) : undefined;
+
+  try {
+    const url = await resolvePlayUrl(src, height);
+    res.setHeader('Cache-Control', 'no-store');
+    res.redirect(302, url);
+  } catch (error) {
+    log.error(`Play-time resolution failed for ${src}`, { error });
+    res.status(502).send('Stream not available');
+  }
+});
@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fetchUpstream } from '../utils/http';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('anime-mapping');
+
+// Snapshot incluso nel repository e nell'immagine Docker: l'addon funziona anche senza raggiungere GitHub.
+// Si rigenera con `pnpm run update-mappings`
+export const BUNDLED_MAPPING_PATH = path.join(__dirname, '..', '..', 'data', 'anime-mappings.json');
+const DEFAULT_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Finché il primo aggiornamento non riesce si riprova più spesso, restando sullo snapshot
+const RETRY_INTERVAL_MS = 5 * 60 * 1000;
+// Il file completo pesa diversi MB
+const REFRESH_TIMEOUT_MS = 60 * 1000;
+
+export interface AnimeMappingEntry {
+  kitsu_id?: number;
+  mal_id?: number;
+  anilist_id?: number;
+  anidb_id?: number;
+  imdb_id?: string;
+  themoviedb_id?: number;
+  type?: string;
+  season?: { tvdb?: number; tmdb?: number };
+  /**
+   * Episodi della stessa stagione IMDb/TMDB che precedono questo anime Kitsu (split-cour).
+   * Il dataset Fribb non lo contiene: lo forniscono solo sorgenti personalizzate (ANIME_MAPPING_URL);
+   * senza, ogni parte di uno split-cour parte dall'episodio 1 della stagione.
+   */
+  episode_offset?: number;
+}
+
+// Campi usati dall'indice: lo snapshot incluso non conserva il resto del dataset
+const SNAPSHOT_FIELDS: (keyof AnimeMappingEntry)[] = [
+  'kitsu_id', 'mal_id', 'anilist_id', 'anidb_id', 'imdb_id', 'themoviedb_id', 'type', 'season', 'episode_offset'
+];
+
+/**
+ * Riduce il dataset remoto alle voci con ID Kitsu e ai soli campi usati, per lo snapshot incluso
+ */
+export function compactMappings(entries: unknown[]): AnimeMappingEntry[] {
+  return entries
+    .filter((entry): entry is AnimeMappingEntry => !!entry && typeof (entry as AnimeMappingEntry).kitsu_id === 'number')
+    .map(entry => Object.fromEntries(
+      SNAPSHOT_FIELDS.filter(field => entry[field] !== undefined && entry[field] !== null).map(field => [field, entry[field]])
+    ) as AnimeMappingEntry);
+}
+
+export interface AnimeIdResolution {
+  /** ID da passare ad AnimeUnityProvider.handleKitsuRequest */
+  kitsuRequestId: string;
+  /** Offset per le voci AnimeUnity con numerazione assoluta */
+  absoluteOffset: number;
+  /** ID IMDb equivalente (tt, tt:S:E) per interrogare anche VixSrc, se noto */
+  imdbRequestId: string | null;
+}
+
+function entrySeason(entry: AnimeMappingEntry): number {
+  return entry.season?.tmdb || entry.season?.tvdb || 1;
+}
+
+/**
+ * Indice incrociato imdb/tmdb/mal/anilist/anidb <-> kitsu, caricato dal dataset incluso
+ * e aggiornato periodicamente da una sorgente remota.
+ */
+export class AnimeMappingStore {
+  private byKitsu = new Map<number, AnimeMappingEntry>();
+  private byMal = new Map<number, AnimeMappingEntry>();
+  private byAnilist = new Map<number, AnimeMappingEntry>();
+  private byAnidb = new Map<number, AnimeMappingEntry>();
+  private byImdb = new Map<string, AnimeMappingEntry[]>();
+  private byTmdb = new Map<number, AnimeMappingEntry[]>();
+  private timer: NodeJS.Timeout | null = null;
+  private remoteLoaded = false;
+  private started = false;
+
+  private sourceUrl = '';
+
+  constructor() {
+    this.loadBundled();
+  }
+
+  private loadBundled(): void {
+    try {
+      const entries: AnimeMappingEntry[] = JSON.parse(fs.readFileSync(BUNDLED_MAPPING_PATH, 'utf8'));
+      this.index(entries);
+      log.info(`Loaded ${this.byKitsu.size} mappings from the bundled snapshot.`);
+    } catch (error) {
+      log.error('Error loading bundled mappings', { error });
+    }
+  }
+
+  private index(entries: AnimeMappingEntry[]): void {
+    const byKitsu = new Map<number, AnimeMappingEntry>();
+    const byMal = new Map<number, AnimeMappingEntry>();
+    const byAnilist = new Map<number, AnimeMappingEntry>();
+    const byAnidb = new Map<number, AnimeMappingEntry>();
+    const byImdb = new Map<string, AnimeMappingEntry[]>();
+    const byTmdb = new Map<number, AnimeMappingEntry[]>();
+
+    for (const entry of entries) {
+      // Senza ID Kitsu la voce non è utilizzabile da AnimeUnityProvider
+      if (!entry || typeof entry.kitsu_id !== 'number') continue;
+      byKitsu.set(entry.kitsu_id, entry);
+      if (typeof entry.mal_id === 'number') byMal.set(entry.mal_id, entry);
+      if (typeof entry.anilist_id === 'number') byAnilist.set(entry.anilist_id, entry);
+      if (typeof entry.anidb_id === 'number') byAnidb.set(entry.anidb_id, entry);
+      if (typeof entry.imdb_id === 'string' && entry.imdb_id.startsWith('tt')) {
+        byImdb.set(entry.imdb_id, [...(byImdb.get(entry.imdb_id) || []), entry]);
+      }
+      if (typeof entry.themoviedb_id === 'number') {
+        byTmdb.set(entry.themoviedb_id, [...(byTmdb.get(entry.themoviedb_id) || []), entry]);
+      }
+    }
+
+    this.byKitsu = byKitsu;
+    this.byMal = byMal;
+    this.byAnilist = byAnilist;
+    this.byAnidb = byAnidb;
+    this.byImdb = byImdb;
+    this.byTmdb = byTmdb;
+  }
+
+  /**
+   * Avvia in background l'aggiornamento dalla sorgente remota; nel frattempo resta in uso lo snapshot incluso
+   * @param sourceUrl dataset nel formato di https://github.com/Fribb/anime-lists (EnvConfig.animeMappingUrl)
+   */
+  start(sourceUrl: string, intervalMs: number = DEFAULT_REFRESH_INTERVAL_MS): void {
+    if (this.started) return;
+    this.started = true;
+    this.sourceUrl = sourceUrl;
+    void this.refresh().then(loaded => {
+      if (!loaded) {
+        log.warn(`Remote mappings unavailable, using the ${this.byKitsu.size} bundled mappings. ` +
+          `Retrying every ${RETRY_INTERVAL_MS / 60000} minutes.`);
+      }
+      this.scheduleRefresh(intervalMs);
+    });
+  }
+
+  private scheduleRefresh(intervalMs: number): void {
+    this.timer = setTimeout(async () => {
+      await this.refresh();
+      this.scheduleRefresh(intervalMs);
+    }, this.remoteLoaded ? intervalMs : RETRY_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Restituisce true se la mappatura remota è stata caricata
+   */
+  async refresh(): Promise<boolean> {
+    try {
+      log.info(`Refreshing mappings from ${this.sourceUrl}`);
+      const response = await fetchUpstream(this.sourceUrl, { timeoutMs: REFRESH_TIMEOUT_MS, retries: 1 });
+      if (!response.ok) {
+        log.error(`Failed to fetch mappings, status: ${response.status}`);
+        return false;
+      }
+      const data = await response.json();
+      if (!Array.isArray(data)) {
+        log.error('Mapping list is not in the expected format.');
+        return false;
+      }
+      this.index(data);
+      this.remoteLoaded = true;
+      log.info(`Loaded ${this.byKitsu.size} mappings.`);
+      return true;
+    } catch (error) {
+      log.error('Error refreshing mappings', { error });
+      return false;
+    }
+  }
+
+  getByKitsu(kitsuId: number): AnimeMappingEntry | undefined {
+    return this.byKitsu.get(kitsuId);
+  }
+
+  getByMal(malId: number): AnimeMappingEntry | undefined {
+    return this.byMal.get(malId);
+  }
+
+  getByAnilist(anilistId: number): AnimeMappingEntry | undefined {
+    return this.byAnilist.get(anilistId);
+  }
+
+  getByAnidb(anidbId: number): AnimeMappingEntry | undefined {
+    return this.byAnidb.get(anidbId);
+  }
+
+  getByTmdb(tmdbId: number): AnimeMappingEntry[] {
+    return this.byTmdb.get(tmdbId) || [];
+  }
+
+  /**
+   * Trova l'anime Kitsu che copre l'episodio indicato di una stagione IMDb.
+   * Con più voci per la stessa stagione (split-cour) sceglie quella con l'offset più alto già superato.
+   */
+  findImdbEpisode(imdbId: string, season: number, episode: number): { entry: AnimeMappingEntry; episode: number } | null {
+    const candidates = (this.byImdb.get(imdbId) || [])
+      .filter(entry => entrySeason(entry) === season && (entry.episode_offset || 0) < episode)
+      .sort((a, b) => (b.episode_offset || 0) - (a.episode_offset || 0));
+    const entry = candidates[0];
+    return entry ? { entry, episode: episode - (entry.episode_offset || 0) } : null;
+  }
+
+  findImdbMovie(imdbId: string): AnimeMappingEntry | null {
+    const entries = this.byImdb.get(imdbId) || [];
+    // Un ID IMDb di una serie non deve mai risolvere un film: senza voce MOVIE non c'è corrispondenza
+    return entries.find(entry => (entry.type || '').toUpperCase() === 'MOVIE') || null;
+  }
+
+  /**
+   * Converte un ID Stremio (tt, kitsu, mal, anilist) nella richiesta Kitsu equivalente.
+   * Restituisce null se l'ID non corrisponde a un anime noto.
+   */
+  resolve(id: string): AnimeIdResolution | null {
+    const [prefix, rawId, ...rest] = id.split(':');
+
+    if (prefix.startsWith('tt')) {
+      if (rawId === undefined) {
+        const movie = this.findImdbMovie(prefix);
+        return movie ? { kitsuRequestId: `kitsu:${movie.kitsu_id}`, absoluteOffset: 0, imdbRequestId: id } : null;
+      }
+      const match = this.findImdbEpisode(prefix, parseInt(rawId, 10), parseInt(rest[0], 10));
+      if (!match) return null;
+      return {
+        kitsuRequestId: `kitsu:${match.entry.kitsu_id}:${match.episode}`,
+        absoluteOffset: match.entry.episode_offset || 0,
+        imdbRequestId: id
+      };
+    }
+
+    let entry: AnimeMappingEntry | undefined;
+    if (prefix === 'kitsu') entry = this.getByKitsu(parseInt(rawId, 10));
+    else if (prefix === 'mal') entry = this.getByMal(parseInt(rawId, 10));
+    else if (prefix === 'anilist') entry = this.getByAnilist(parseInt(rawId, 10));
+    if (!entry) {
+      // Gli ID kitsu funzionano anche senza mappatura
+      return prefix === 'kitsu' ? { kitsuRequestId: id, absoluteOffset: 0, imdbRequestId: null } : null;
+    }
+
+    const episodePart = rest.length ? rest[rest.length - 1] : null;
+    const kitsuRequestId = prefix === 'kitsu' ? id : `kitsu:${entry.kitsu_id}${episodePart ? `:${episodePart}` : ''}`;
+    const offset = entry.episode_offset || 0;
+
+    let imdbRequestId: string | null = null;
+    // Gli speciali decimali (12.5) non hanno un equivalente IMDb
+    if (entry.imdb_id && (!episodePart || /^\d+$/.test(episodePart))) {
+      imdbRequestId = episodePart
+        ? `${entry.imdb_id}:${entrySeason(entry)}:${offset + parseInt(episodePart, 10)}`
+        : entry.imdb_id;
+    }
+
+    return { kitsuRequestId, absoluteOffset: offset, imdbRequestId };
+  }
+}
+
+export const animeMappingStore = new AnimeMappingStore();
@@ -0,0 +1,178 @@
+import { animeMappingStore } from './anime-mapping';
+import { AnimeUnityClient } from './animeunity-client';
+import { KitsuProvider } from './kitsu';
+import { formatAnimeUnityId, parseAnimeUnityId } from './animeunity-provider';
+import { AnimeUnityArchiveRecord, AnimeUnityArchiveFilters, AnimeUnityEpisode, AnimeUnityGenre } from '../types/animeunity';
+import { TtlCache } from '../utils/cache';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('animeunity');
+
+const CATALOG_TYPE = "anime";
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+// Nomi dei generi come appaiono su AnimeUnity; gli ID vengono risolti a runtime dalla pagina archivio
+const GENRE_OPTIONS = [
+  "Action", "Adventure", "Comedy", "Drama", "Ecchi", "Fantasy", "Horror", "Isekai", "Mecha",
+  "Music", "Mystery", "Psychological", "Romance", "Sci-Fi", "Shoujo", "Shounen", "Seinen",
+  "Slice of Life", "Sports", "Supernatural", "Thriller"
+];
+
+export const ANIMEUNITY_CATALOGS = [
+  {
+    type: CATALOG_TYPE,
+    id: "animeunity_popular",
+    name: "AnimeUnity - Popolari",
+    extra: [{ name: "genre", options: GENRE_OPTIONS }, { name: "skip" }]
+  },
+  {
+    type: CATALOG_TYPE,
+    id: "animeunity_airing",
+    name: "AnimeUnity - In corso",
+    extra: [{ name: "genre", options: GENRE_OPTIONS }, { name: "skip" }]
+  },
+  {
+    type: CATALOG_TYPE,
+    id: "animeunity_search",
+    name: "AnimeUnity",
+    extra: [{ name: "search", isRequired: true }, { name: "skip" }]
+  }
+];
+
+export const ANIMEUNITY_META_RESOURCE = {
+  name: "meta",
+  types: [CATALOG_TYPE],
+  // Solo gli ID creati da questi cataloghi: le schede kitsu: restano all'addon Kitsu
+  idPrefixes: ["animeunity"]
+};
+
+export interface AnimeCatalogExtra {
+  genre?: string;
+  search?: string;
+  skip?: string;
+}
+
+const client = new AnimeUnityClient();
+const kitsuProvider = new KitsuProvider();
+
+const genresCache = new TtlCache<AnimeUnityGenre[]>({ maxEntries: 1, defaultTtlMs: CACHE_TTL_MS });
+
+function recordTitle(record: AnimeUnityArchiveRecord): string {
+  return (record.title_it || record.title_eng || record.title || record.slug).trim();
+}
+
+async function resolveGenre(name: string): Promise<AnimeUnityGenre | null> {
+  const genres = await genresCache.getOrLoad('all', () => client.getGenres());
+  return genres?.find(genre => genre.name.toLowerCase() === name.toLowerCase()) || null;
+}
+
+/**
+ * Restituisce l'ID Stremio da usare per un record: `kitsu:` se esiste una mappatura, altrimenti `animeunity:`.
+ * La mappatura offline copre quasi tutto il catalogo: l'API Kitsu serve solo per i titoli che mancano.
+ */
+async function resolveStremioId(record: AnimeUnityArchiveRecord): Promise<string> {
+  const mapped = (record.mal_id && animeMappingStore.getByMal(record.mal_id))
+    || (record.anilist_id && animeMappingStore.getByAnilist(record.anilist_id))
+    || null;
+  if (mapped?.kitsu_id) return `kitsu:${mapped.kitsu_id}`;
+
+  if (record.mal_id) {
+    const kitsuId = await kitsuProvider.getKitsuIdFromMal(record.mal_id);
+    if (kitsuId) return `kitsu:${kitsuId}`;
+  }
+  return formatAnimeUnityId(record.id, record.slug);
+}
+
+// Data ISO per il campo `released` dei video: episodi senza data ereditano l'anno dell'anime
+function episodeReleased(episode: AnimeUnityEpisode, record: AnimeUnityArchiveRecord): string | undefined {
+  const candidates = [episode.created_at?.replace(' ', 'T'), record.date && `${record.date}-01-01`];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const date = new Date(candidate);
+    if (!Number.isNaN(date.getTime())) return date.toISOString();
+  }
+  return undefined;
+}
+
+async function toMetaPreview(record: AnimeUnityArchiveRecord, type: string) {
+  return {
+    id: await resolveStremioId(record),
+    type,
+    name: recordTitle(record),
+    poster: record.imageurl,
+    description: record.plot,
+    genres: (record.genres || []).map(genre => genre.name),
+    releaseInfo: record.date
+  };
+}
+
+/**
+ * Costruisce i cataloghi AnimeUnity (popolari, in corso, ricerca) a partire dall'archivio
+ */
+export async function getAnimeUnityCatalog(catalogId: string, type: string, extra: AnimeCatalogExtra = {}) {
+  const filters: AnimeUnityArchiveFilters = {
+    offset: parseInt(extra.skip || '0', 10) || 0
+  };
+
+  if (catalogId === 'animeunity_search') {
+    if (!extra.search) return [];
+    filters.title = extra.search;
+  } else if (catalogId === 'animeunity_popular') {
+    filters.order = 'Popolarità';
+  } else if (catalogId === 'animeunity_airing') {
+    filters.order = 'Popolarità';
+    filters.status = 'In Corso';
+  } else {
+    return [];
+  }
+
+  if (extra.genre) {
+    const genre = await resolveGenre(extra.genre);
+    if (!genre) {
+      log.warn(`Genere sconosciuto: ${extra.genre}`);
+      return [];
+    }
+    filters.genres = [genre];
+  }
+
+  const records = await client.getArchive(filters);
+  return Promise.all(records.map(record => toMetaPreview(record, type)));
+}
+
+/**
+ * Costruisce la scheda (con lista episodi) per un ID `animeunity:`
+ */
+export async function getAnimeUnityMeta(id: string, type: string) {
+  if (!id.startsWith('animeunity:')) return null;
+  const { animeId, slug } = parseAnimeUnityId(id);
+  const record = await client.getAnime(animeId, slug);
+  if (!record) return null;
+
+  const episodes = await client.getEpisodes(record.id);
+  let regularIndex = 0;
+  let specialIndex = 0;
+
+  return {
+    id,
+    type,
+    name: recordTitle(record),
+    poster: record.imageurl,
+    background: record.cover || record.imageurl,
+    description: record.plot,
+    genres: (record.genres || []).map(genre => genre.name),
+    releaseInfo: record.date,
+    videos: episodes.map(episode => {
+      const value = parseFloat(String(episode.number));
+      const released = episodeReleased(episode, record);
+      const isSpecial = !Number.isInteger(value) || value <= 0;
+      // Come per Kitsu la numerazione è relativa all'anime (1..N), anche se AnimeUnity continua da una stagione precedente;
+      // gli speciali (0, 12.5) mantengono il numero reale nell'ID e vanno nella stagione 0. Entrambi risolti da resolveEpisode
+      if (isSpecial) {
+        specialIndex++;
+        return { id: `${id}:${episode.number}`, title: `Episodio ${episode.number}`, season: 0, episode: specialIndex, released };
+      }
+      regularIndex++;
+      return { id: `${id}:${regularIndex}`, title: `Episodio ${episode.number}`, season: 1, episode: regularIndex, released };
+    })
+  };
+}
@@ -0,0 +1,390 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import * as cheerio from 'cheerio';
+import * as https from 'https';
+import {
+  AnimeUnitySearchResult,
+  AnimeUnityEpisode,
+  AnimeUnityStreamData,
+  AnimeUnityArchiveRecord,
+  AnimeUnityArchiveFilters,
+  AnimeUnityGenre
+} from '../types/animeunity';
+import { isUpstreamFailure } from '../utils/http';
+import { createLogger } from '../utils/logger';
+import { MirrorSet } from '../utils/mirrors';
+import { SingleFlight } from '../utils/single-flight';
+
+const log = createLogger('animeunity');
+
+// --- Configuration for AnimeUnity ---
+const DEFAULT_BASE_URL = "https://www.animeunity.so"; // Sovrascrivibile con ANIMEUNITY_MIRRORS
+const USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64)";
+const TIMEOUT = 20000;
+const EPISODES_BATCH_SIZE = 120; // info_api restituisce al massimo 120 episodi per richiesta
+// --- End Configuration ---
+
+// Domini AnimeUnity in ordine di preferenza, configurati da addon.ts
+export const animeUnityMirrors = new MirrorSet("AnimeUnity", [DEFAULT_BASE_URL], /animeunity/i);
+
+interface SessionTokens {
+  /** Mirror su cui è stata aperta la sessione: i cookie valgono solo lì */
+  origin: string;
+  csrfToken: string;
+  cookieHeader: string;
+}
+
+interface ApiSession {
+  origin: string;
+  requestConfig: AxiosRequestConfig;
+}
+
+// Le ricerche SUB/DUB di una richiesta partono insieme: aprono una sola sessione invece di una per query
+const sessionLoads = new SingleFlight<SessionTokens>();
+
+// Solo errori di rete e 5xx fanno passare al mirror successivo: un 404 è una risposta valida
+function isMirrorError(error: unknown): boolean {
+  return !axios.isAxiosError(error) || !error.response || error.response.status >= 500;
+}
+
+// VixCloud a volte espone certificati non validi: come nello scraper Python, non verifichiamo SSL
+const insecureAgent = new https.Agent({ rejectUnauthorized: false });
+
+/**
+ * Client TypeScript per AnimeUnity.
+ * Porta nativa di `animeunity_scraper.py`: stessa logica di sessione, ricerca,
+ * lista episodi ed estrazione del link MP4 da VixCloud.
+ */
+export class AnimeUnityClient {
+  private baseHeaders = { "User-Agent": USER_AGENT };
+  private baseConfig: AxiosRequestConfig = {
+    headers: this.baseHeaders,
+    timeout: TIMEOUT,
+    beforeRedirect: animeUnityMirrors.redirectObserver()
+  };
+
+  /**
+   * GET di un percorso AnimeUnity con failover sui mirror
+   */
+  private async get(path: string, config: AxiosRequestConfig = {}) {
+    return animeUnityMirrors.request(async origin => ({
+      origin,
+      response: await axios.get(`${origin}${path}`, { ...this.baseConfig, ...config })
+    }), isMirrorError);
+  }
+
+  /**
+   * Recupera token CSRF e cookie di sessione per le richieste API
+   */
+  private getSessionTokens(): Promise<SessionTokens> {
+    return sessionLoads.run('session', () => this.loadSessionTokens());
+  }
+
+  private async loadSessionTokens(): Promise<SessionTokens> {
+    // Una home senza token CSRF (es. pagina di parcheggio del dominio) conta come mirror non valido
+    return animeUnityMirrors.request(async origin => {
+      const response = await axios.get(`${origin}/`, this.baseConfig);
+
+      const $ = cheerio.load(response.data);
+      const csrfToken = $("meta[name=csrf-token]").attr("content");
+      if (!csrfToken) {
+        throw new Error("CSRF token not found on AnimeUnity home page.");
+      }
+
+      const setCookie: string[] = response.headers['set-cookie'] || [];
+      const cookieHeader = setCookie
+        .map(cookie => cookie.split(';')[0])
+        .join('; ');
+
+      return { origin, csrfToken, cookieHeader };
+    });
+  }
+
+  /**
+   * Configurazione axios per le API JSON che richiedono la sessione
+   */
+  private async getApiSession(): Promise<ApiSession> {
+    const session = await this.getSessionTokens();
+    return {
+      origin: session.origin,
+      requestConfig: {
+        ...this.baseConfig,
+        headers: {
+          ...this.baseHeaders,
+          "X-Requested-With": "XMLHttpRequest",
+          "Content-Type": "application/json;charset=utf-8",
+          "X-CSRF-Token": session.csrfToken,
+          "Referer": session.origin,
+          "Cookie": session.cookieHeader
+        }
+      }
+    };
+  }
+
+  /**
+   * Ricerca anime tramite API livesearch e archivio
+   */
+  async search(query: string, dubbed = false): Promise<AnimeUnitySearchResult[]> {
+    const { origin, requestConfig } = await this.getApiSession();
+
+    const searchEndpoints = [
+      { url: `${origin}/livesearch`, payload: { title: query } },
+      {
+        url: `${origin}/archivio/get-animes`, payload: {
+          title: query, type: false, year: false,
+          order: "Lista A-Z", status: false, genres: false,
+          season: false, offset: 0, dubbed
+        }
+      }
+    ];
+
+    const results = new Map<number, AnimeUnitySearchResult>();
+    let failures = 0;
+    let lastError: unknown;
+
+    for (const [index, endpoint] of searchEndpoints.entries()) {
+      // Solo l'archivio applica il filtro doppiati: livesearch restituisce sempre tutte le versioni
+      const fromDubbedFilter = dubbed && index === 1;
+      try {
+        const response = await axios.post(endpoint.url, endpoint.payload, requestConfig);
+        const records: any[] = response.data?.records || [];
+
+        for (const record of records) {
+          const existing = results.get(record.id);
+          if (existing) {
+            existing.dubbedSearch = existing.dubbedSearch || fromDubbedFilter;
+            continue;
+          }
+          const title: string = record.title_it || record.title_eng || record.title || "";
+          const titles: string[] = [record.title_it, record.title_eng, record.title]
+            .filter((t: unknown): t is string => typeof t === 'string' && !!t.trim())
+            .map((t: string) => t.trim());
+          results.set(record.id, {
+            id: record.id,
+            slug: record.slug,
+            name: title.trim(),
+            episodes_count: record.episodes_count || 0,
+            titles,
+            date: record.date ? String(record.date) : undefined,
+            dub: record.dub === undefined || record.dub === null ? undefined : Boolean(Number(record.dub)),
+            dubbedSearch: fromDubbedFilter
+          });
+        }
+      } catch (error) {
+        log.error(`Errore ricerca ${endpoint.url}`, { error });
+        failures++;
+        lastError = error;
+      }
+    }
+
+    // Nessun endpoint ha risposto: non è un "nessun risultato"
+    if (failures === searchEndpoints.length) throw lastError;
+    return Array.from(results.values());
+  }
+
+  /**
+   * Interroga l'archivio con filtri (ordinamento, stato, generi) e paginazione
+   */
+  async getArchive(filters: AnimeUnityArchiveFilters): Promise<AnimeUnityArchiveRecord[]> {
+    const { origin, requestConfig } = await this.getApiSession();
+    const payload = {
+      title: filters.title || false,
+      type: false,
+      year: false,
+      order: filters.order || "Lista A-Z",
+      status: filters.status || false,
+      genres: filters.genres && filters.genres.length ? filters.genres : false,
+      season: false,
+      offset: filters.offset || 0,
+      dubbed: filters.dubbed || false
+    };
+
+    const response = await axios.post(`${origin}/archivio/get-animes`, payload, requestConfig);
+    return response.data?.records || [];
+  }
+
+  /**
+   * Recupera l'elenco dei generi dalla pagina dell'archivio
+   */
+  async getGenres(): Promise<AnimeUnityGenre[]> {
+    const { response } = await this.get('/archivio');
+    const $ = cheerio.load(response.data);
+    const rawGenres = $("archivio").attr("all-genres");
+    if (!rawGenres) {
+      throw new Error("Genre list not found on AnimeUnity archive page.");
+    }
+    return JSON.parse(rawGenres);
+  }
+
+  /**
+   * Recupera i dettagli di un anime dalla sua pagina (attributo `anime` del video-player)
+   */
+  async getAnime(animeId: number, animeSlug: string): Promise<AnimeUnityArchiveRecord | null> {
+    try {
+      const { response } = await this.get(`/anime/${animeId}-${animeSlug}`);
+      const $ = cheerio.load(response.data);
+      const rawAnime = $("video-player").attr("anime");
+      return rawAnime ? JSON.parse(rawAnime) : null;
+    } catch (error) {
+      log.error(`Errore recupero anime ${animeId}`, { error });
+      return null;
+    }
+  }
+
+  /**
+   * Recupera lista episodi tramite API info_api
+   */
+  async getEpisodes(animeId: number): Promise<AnimeUnityEpisode[]> {
+    const episodes: AnimeUnityEpisode[] = [];
+
+    try {
+      const { response: countResponse } = await this.get(`/info_api/${animeId}/`);
+      const totalEpisodes: number = countResponse.data?.episodes_count || 0;
+
+      // Recupera episodi in batch
+      for (let start = 1; start <= totalEpisodes; start += EPISODES_BATCH_SIZE) {
+        const end = Math.min(start + EPISODES_BATCH_SIZE - 1, totalEpisodes);
+        const { response: episodesResponse } = await this.get(`/info_api/${animeId}/1`, {
+          params: { start_range: start, end_range: end }
+        });
+        episodes.push(...(episodesResponse.data?.episodes || []));
+      }
+    } catch (error) {
+      // AnimeUnity non raggiungibile non è "episodio non trovato": lo classifica il provider
+      if (isUpstreamFailure(error)) throw error;
+      log.error(`Errore recupero episodi`, { error });
+    }
+
+    return episodes;
+  }
+
+  /**
+   * Estrae sia l'embed URL di VixCloud che il link MP4 finale per un episodio
+   */
+  async getStream(animeId: number, animeSlug: string, episodeId: number): Promise<AnimeUnityStreamData> {
+    const episodePath = `/anime/${animeId}-${animeSlug}/${episodeId}`;
+
+    let pageContent: string;
+    let origin: string;
+    try {
+      const result = await this.get(episodePath);
+      pageContent = result.response.data;
+      origin = result.origin;
+    } catch (error) {
+      // Come per gli episodi: AnimeUnity non raggiungibile va distinto da una pagina senza player
+      if (isUpstreamFailure(error)) throw error;
+      log.error(`Errore caricamento pagina episodio`, { error });
+      return { episode_page: null, embed_url: null, mp4_url: null };
+    }
+
+    const $ = cheerio.load(pageContent);
+    let embedUrl = $("video-player").attr("embed_url") || null;
+
+    // Fallback: cerca iframe VixCloud
+    if (!embedUrl) {
+      const iframeMatch = pageContent.match(/<iframe[^>]+src="([^"]*vixcloud[^"]+)"/);
+      if (iframeMatch) {
+        embedUrl = iframeMatch[1];
+      }
+    }
+
+    if (embedUrl) {
+      embedUrl = normalizeUrl(embedUrl, origin);
+    }
+
+    const mp4Url = embedUrl ? await this.extractMp4FromVixCloud(embedUrl, origin) : null;
+
+    return {
+      episode_page: `${origin}${episodePath}`,
+      embed_url: embedUrl,
+      mp4_url: mp4Url
+    };
+  }
+
+  /**
+   * Estrae il link MP4 diretto dalla pagina embed di VixCloud
+   */
+  private async extractMp4FromVixCloud(embedUrl: string, referer: string): Promise<string | null> {
+    try {
+      const response = await axios.get(embedUrl, {
+        headers: {
+          ...this.baseHeaders,
+          "Referer": referer,
+          "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8"
+        },
+        timeout: TIMEOUT,
+        httpsAgent: insecureAgent
+      });
+      const fullText: string = response.data;
+      const $ = cheerio.load(fullText);
+
+      // Metodo 1: Cerca script con src_mp4
+      const scripts = $("script").toArray().map(el => $(el).html() || '');
+      for (const script of scripts) {
+        const mp4Match = script.match(/(?:src_mp4|file)\s*[:=]\s*["']([^"']+\.mp4[^"']*)["']/);
+        if (mp4Match) {
+          const mp4Url = mp4Match[1].replace(/\\\//g, "/");
+          if (mp4Url.startsWith("http")) {
+            return mp4Url;
+          }
+        }
+      }
+
+      // Metodo 2: Cerca variabili JavaScript con URL MP4
+      const mp4Patterns = [
+        /(?:file|source|src)\s*[:=]\s*["']([^"']*au-d1-[^"']*\.mp4[^"']*)["']/gi,
+        /["']([^"']*scws-content\.net[^"']*\.mp4[^"']*)["']/gi,
+        /(?:mp4|video)(?:Url|Source|File)\s*[:=]\s*["']([^"']+\.mp4[^"']*)["']/gi
+      ];
+      for (const pattern of mp4Patterns) {
+        for (const match of fullText.matchAll(pattern)) {
+          const cleanUrl = match[1].replace(/\\\//g, "/");
+          if (cleanUrl.includes("token=") && cleanUrl.includes("expires=")) {
+            return cleanUrl;
+          }
+        }
+      }
+
+      // Metodo 3: Parsing della configurazione JSON (fallback M3U8 -> MP4)
+      const jsonMatch = fullText.match(/(?:config|window\.config)\s*=\s*(\{[\s\S]*?\});/);
+      if (jsonMatch) {
+        try {
+          const config = JSON.parse(jsonMatch[1]);
+          for (const key of ["masterPlaylist", "window_parameter", "streams"]) {
+            const entry = config[key];
+            if (!entry || typeof entry !== 'object') continue;
+            const baseUrl: string = entry.url || "";
+            if (!baseUrl.includes("playlist") || !baseUrl.includes("vixcloud.co")) continue;
+
+            // Sostituisci /playlist/ con /download/ per ottenere MP4
+            let mp4Url = baseUrl.replace("/playlist/", "/download/").replace("m3u8", "mp4");
+            const { token, expires } = entry.params || {};
+            if (token && expires) {
+              mp4Url += `${mp4Url.includes("?") ? "&" : "?"}token=${token}&expires=${expires}`;
+              if (config.canPlayFHD) {
+                mp4Url += "&quality=1080p";
+              }
+              return mp4Url;
+            }
+          }
+        } catch {
+          // JSON non valido, nessun link disponibile
+        }
+      }
+
+      return null;
+    } catch (error) {
+      log.error(`Errore estrazione VixCloud`, { error });
+      return null;
+    }
+  }
+}
+
+function normalizeUrl(url: string, origin: string): string {
+  if (url.startsWith("//")) {
+    return `https:${url}`;
+  }
+  if (url.startsWith("/")) {
+    return new URL(url, origin).toString();
+  }
+  return url;
+}
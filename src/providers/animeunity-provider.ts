@@ -1,94 +1,118 @@
-import { spawn } from 'child_process';
 import { KitsuProvider } from './kitsu';
+import { AnimeUnityClient } from './animeunity-client';
 import { formatMediaFlowUrl } from '../utils/mediaflow';
-import { AnimeUnityConfig, StreamForStremio } from '../types/animeunity';
-import * as path from 'path';
+import { buildProxyUrl } from '../proxy';
+import { AnimeUnityConfig, StreamForStremio, AnimeUnitySearchResult, AnimeUnityLanguage, AnimeUnityVersion, KitsuAnimeInfo } from '../types/animeunity';
+import { buildSearchQueries, selectMatches, MatchOptions } from '../utils/anime-matching';
+import { resolveEpisode } from '../utils/episode-resolver';
+import { createLogger } from '../utils/logger';
+import { SingleFlight } from '../utils/single-flight';
+import { extractorFailures } from '../utils/metrics';
+import { currentAbortSignal, isUpstreamFailure } from '../utils/http';
+import { StreamLanguage } from '../types/stream-provider';
 
-// Helper function to invoke the Python scraper
-async function invokePythonScraper(args: string[]): Promise<any> {
-    const scriptPath = path.join(__dirname, 'animeunity_scraper.py');
-    
-    // Use python3, ensure it's in the system's PATH
-    const command = 'python3';
+const log = createLogger('animeunity');
 
-    return new Promise((resolve, reject) => {
-        const pythonProcess = spawn(command, [scriptPath, ...args]);
+// Marcatore dei doppiaggi nei titoli AnimeUnity, es. "One Piece (ITA)"
+const DUB_TITLE_PATTERN = /\(\s*ITA\s*\)/i;
 
-        let stdout = '';
-        let stderr = '';
+/**
+ * Lingua di una versione: metadato `dub` di AnimeUnity, poi filtro doppiati della ricerca,
+ * poi "(ITA)" nel titolo; senza indicazioni è una versione sottotitolata
+ */
+function detectLanguage(version: AnimeUnitySearchResult): AnimeUnityLanguage {
+  const dubbed = (source: AnimeUnityLanguage['source']): AnimeUnityLanguage => ({ audio: 'ita', subtitles: null, source });
+  const subbed = (source: AnimeUnityLanguage['source']): AnimeUnityLanguage => ({ audio: 'original', subtitles: 'ita', source });
 
-        pythonProcess.stdout.on('data', (data: Buffer) => {
-            stdout += data.toString();
-        });
-
-        pythonProcess.stderr.on('data', (data: Buffer) => {
-            stderr += data.toString();
-        });
-
-        pythonProcess.on('close', (code: number) => {
-            if (code !== 0) {
-                console.error(`Python script exited with code ${code}`);
-                console.error(stderr);
-                return reject(new Error(`Python script error: ${stderr}`));
-            }
-            try {
-                resolve(JSON.parse(stdout));
-            } catch (e) {
-                console.error('Failed to parse Python script output:');
-                console.error(stdout);
-                reject(new Error('Failed to parse Python script output.'));
-            }
-        });
-
-        pythonProcess.on('error', (err: Error) => {
-            console.error('Failed to start Python script:', err);
-            reject(err);
-        });
-    });
+  if (version.dub !== undefined) return version.dub ? dubbed('metadata') : subbed('metadata');
+  if (version.dubbedSearch) return dubbed('dubbed_search');
+  if (DUB_TITLE_PATTERN.test(version.name)) return dubbed('title');
+  return subbed('default');
 }
 
-interface AnimeUnitySearchResult {
-    id: number;
-    slug: string;
-    name: string;
-    episodes_count: number;
+// Unisce i risultati con lo stesso ID trovati da query o ricerche diverse
+function mergeSearchResult(byId: Map<number, AnimeUnitySearchResult>, result: AnimeUnitySearchResult): void {
+  const existing = byId.get(result.id);
+  if (!existing) {
+    byId.set(result.id, { ...result });
+    return;
+  }
+  existing.dub = existing.dub ?? result.dub;
+  existing.dubbedSearch = existing.dubbedSearch || result.dubbedSearch;
 }
 
-interface AnimeUnityEpisode {
-    id: number;
-    number: string;
-    name?: string;
+function streamLanguage(language: AnimeUnityLanguage): StreamLanguage {
+  return language.audio === 'ita' ? 'ita' : 'sub';
 }
 
-interface AnimeUnityStreamData {
-    episode_page: string;
-    embed_url: string;
-    mp4_url: string;
+// Etichetta per il segnaposto {language} dei template
+function languageLabel(language: AnimeUnityLanguage): string {
+  return language.audio === 'ita' ? 'ITA' : 'SUB ITA';
 }
 
+// Richieste concorrenti per lo stesso episodio e la stessa configurazione condividono ricerca ed estrazione
+const streamLoads = new SingleFlight<{ streams: StreamForStremio[] }>();
+
 export class AnimeUnityProvider {
   private kitsuProvider = new KitsuProvider();
+  private client = new AnimeUnityClient();
 
   constructor(private config: AnimeUnityConfig) {}
 
-  private async searchAllVersions(title: string): Promise<{ version: AnimeUnitySearchResult; language_type: string }[]> {
-      const subPromise = invokePythonScraper(['search', '--query', title]).catch(() => []);
-      const dubPromise = invokePythonScraper(['search', '--query', title, '--dubbed']).catch(() => []);
+  /**
+   * URL proxato dell'mp4: MediaFlow se configurato, altrimenti il proxy integrato se attivo
+   */
+  private proxiedMp4Url(mp4Url: string, embedUrl: string | null): string {
+    if (!(this.config.mfpUrl && this.config.mfpPassword) && this.config.builtinProxyUrl) {
+      const headers: Record<string, string> = embedUrl
+        ? { "Referer": embedUrl, "Origin": new URL(embedUrl).origin }
+        : {};
+      return buildProxyUrl(this.config.builtinProxyUrl, 'file', mp4Url, headers);
+    }
+    return formatMediaFlowUrl(mp4Url, this.config.mfpUrl, this.config.mfpPassword);
+  }
+
+  private async searchAllVersions(animeInfo: KitsuAnimeInfo, matchOptions: MatchOptions = {}): Promise<AnimeUnityVersion[]> {
+      const queries = buildSearchQueries(animeInfo);
+      log.info(`Query di ricerca: ${queries.join(' | ')}`);
 
-      const [subResults, dubResults]: [AnimeUnitySearchResult[], AnimeUnitySearchResult[]] = await Promise.all([subPromise, dubPromise]);
-      const results: { version: AnimeUnitySearchResult; language_type: string }[] = [];
+      const searchAll = async (dubbed: boolean): Promise<AnimeUnitySearchResult[]> => {
+        const settled = await Promise.allSettled(queries.map(query => this.client.search(query, dubbed)));
+        const perQuery = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+        // Tutte le ricerche fallite: AnimeUnity non risponde, non va segnalato come "nessun risultato"
+        const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (!perQuery.length && failure) throw failure.reason;
+        const byId = new Map<number, AnimeUnitySearchResult>();
+        for (const r of perQuery.flat()) mergeSearchResult(byId, r);
+        // Tieni solo i risultati che corrispondono davvero al titolo Kitsu
+        return selectMatches(animeInfo, Array.from(byId.values()), matchOptions).map(match => match.candidate);
+      };
 
-      // Unisci tutti i risultati (SUB e DUB), ma assegna ITA se il nome contiene ITA
-      const allResults = [...subResults, ...dubResults];
-      for (const r of allResults) {
-        const nameLower = r.name.toLowerCase();
-        const language_type = nameLower.includes('ita') ? 'ITA' : 'SUB';
-        results.push({ version: r, language_type });
-      }
-      return results;
+      const [subResults, dubResults] = await Promise.all([searchAll(false), searchAll(true)]);
+
+      // La stessa versione può comparire in entrambe le ricerche: una sola voce, con le informazioni di tutte e due
+      const merged = new Map<number, AnimeUnitySearchResult>();
+      for (const r of [...subResults, ...dubResults]) mergeSearchResult(merged, r);
+
+      return Array.from(merged.values()).map(version => {
+        const language = detectLanguage(version);
+        log.debug(`"${version.name}": audio ${language.audio}, sottotitoli ${language.subtitles || '-'} (${language.source})`);
+        return { version, language };
+      });
   }
 
-  async handleKitsuRequest(kitsuIdString: string): Promise<{ streams: StreamForStremio[] }> {
+  /**
+   * @param absoluteOffset episodi che precedono questo anime Kitsu nella numerazione assoluta, se noti
+   */
+  handleKitsuRequest(kitsuIdString: string, absoluteOffset = 0): Promise<{ streams: StreamForStremio[] }> {
+    return streamLoads.run(this.flightKey('kitsu', kitsuIdString, absoluteOffset), () => this.loadKitsuStreams(kitsuIdString, absoluteOffset));
+  }
+
+  private flightKey(...parts: (string | number)[]): string {
+    return JSON.stringify([...parts, this.config]);
+  }
+
+  private async loadKitsuStreams(kitsuIdString: string, absoluteOffset: number): Promise<{ streams: StreamForStremio[] }> {
     if (!this.config.enabled) {
       return { streams: [] };
     }
@@ -98,86 +122,57 @@ export class AnimeUnityProvider {
       
       const animeInfo = await this.kitsuProvider.getAnimeInfo(kitsuId);
       if (!animeInfo) {
+        extractorFailures.inc({ provider: 'animeunity', reason: 'kitsu_info_missing' });
         return { streams: [] };
       }
       
-      // Logga il titolo originale e quello normalizzato
-      console.log(`[AnimeUnity] Titolo Kitsu: ${animeInfo.title}`);
-      const normalizedTitle = this.kitsuProvider.normalizeTitle(animeInfo.title);
-      console.log(`[AnimeUnity] Titolo normalizzato per ricerca: ${normalizedTitle}`);
-      const animeVersions = await this.searchAllVersions(normalizedTitle);
+      log.info(`Titolo Kitsu: ${animeInfo.title} (${animeInfo.startYear || '?'}, ${animeInfo.episodeCount || '?'} episodi)`);
+      const animeVersions = await this.searchAllVersions(animeInfo, { season: seasonNumber });
       
       if (!animeVersions.length) {
+        extractorFailures.inc({ provider: 'animeunity', reason: 'no_match' });
         return { streams: [] };
       }
       
-      if (isMovie) {
-        // Assuming movies are treated as episode 1
-        const episodeToFind = "1";
-        const streams: StreamForStremio[] = [];
+      // I film sono trattati come episodio 1
+      const requestedEpisode = isMovie ? 1 : episodeNumber ?? 1;
 
-        for (const { version, language_type } of animeVersions) {
-            const episodes: AnimeUnityEpisode[] = await invokePythonScraper(['get_episodes', '--anime-id', String(version.id)]);
-            const targetEpisode = episodes.find(ep => ep.number === episodeToFind);
-
-            if (targetEpisode) {
-                const streamResult: AnimeUnityStreamData = await invokePythonScraper([
-                    'get_stream',
-                    '--anime-id', String(version.id),
-                    '--anime-slug', version.slug,
-                    '--episode-id', String(targetEpisode.id)
-                ]);
-
-                if (streamResult.mp4_url) {
-                    streams.push({
-                        title: `🎬 AnimeUnity ${language_type} (Movie)`,
-                        url: streamResult.mp4_url,
-                        behaviorHints: { notWebReady: true }
-                    });
-                }
-            }
-        }
-        return { streams };
-      }
-      
-      const streams: StreamForStremio[] = [];
-      
-      for (const { version, language_type } of animeVersions) {
+      // Versioni SUB e DUB in parallelo, mantenendo l'ordine della ricerca
+      const versionStreams = await Promise.allSettled(animeVersions.map(async ({ version, language }): Promise<StreamForStremio[]> => {
+        const streams: StreamForStremio[] = [];
         try {
-          const episodes: AnimeUnityEpisode[] = await invokePythonScraper(['get_episodes', '--anime-id', String(version.id)]);
-          const targetEpisode = episodes.find(ep => String(ep.number) === String(episodeNumber));
+          const episodes = await this.client.getEpisodes(version.id);
+          const resolved = resolveEpisode(episodes, isMovie ? { episodeNumber: 1 } : { episodeNumber: requestedEpisode, absoluteOffset });
           
-          if (!targetEpisode) continue;
+          if (!resolved) {
+            log.info(`Episodio ${requestedEpisode} non trovato in "${version.name}"`);
+            extractorFailures.inc({ provider: 'animeunity', reason: 'episode_not_found' });
+            return streams;
+          }
+          const targetEpisode = resolved.episode;
+          log.info(`Episodio ${requestedEpisode} -> ${targetEpisode.number} in "${version.name}" (${resolved.resolution})`);
           
-          const streamResult: AnimeUnityStreamData = await invokePythonScraper([
-            'get_stream',
-            '--anime-id', String(version.id),
-            '--anime-slug', version.slug,
-            '--episode-id', String(targetEpisode.id)
-          ]);
+          const streamResult = await this.client.getStream(version.id, version.slug, targetEpisode.id);
           
           if (streamResult.mp4_url) {
-            const mediaFlowUrl = formatMediaFlowUrl(
-              streamResult.mp4_url,
-              this.config.mfpUrl,
-              this.config.mfpPassword
-            );
+            const mediaFlowUrl = this.proxiedMp4Url(streamResult.mp4_url, streamResult.embed_url);
 
             // Rimuovi eventuali (ITA) dal nome
-            const cleanName = version.name.replace(/\s*\(ITA\)/i, '').trim();
-            const isDub = language_type === 'DUB';
-            const mainName = isDub ? `${cleanName} ITA` : cleanName;
-            const sNum = seasonNumber || 1;
-            let streamTitle = isDub
-              ? `${capitalize(cleanName)} ITA S${sNum}`
-              : `${capitalize(cleanName)} SUB S${sNum}`;
-            if (episodeNumber) {
-              streamTitle += `E${episodeNumber}`;
-            }
+            const cleanName = version.name.replace(DUB_TITLE_PATTERN, '').trim();
+            const info = isMovie
+              ? { title: capitalize(cleanName), language: languageLabel(language) }
+              : {
+                  title: capitalize(cleanName),
+                  season: seasonNumber || 1,
+                  episode: episodeNumber ?? undefined,
+                  language: languageLabel(language)
+                };
 
             streams.push({
-              title: streamTitle,
               url: mediaFlowUrl,
+              source: 'proxy',
+              language: streamLanguage(language),
+              info,
               behaviorHints: {
                 notWebReady: true
               }
@@ -185,25 +180,145 @@ export class AnimeUnityProvider {
 
             if (this.config.bothLink && streamResult.embed_url) {
               streams.push({
-                title: `[E] ${streamTitle}`,
                 url: streamResult.embed_url,
+                source: 'embed',
+                language: streamLanguage(language),
+                info,
                 behaviorHints: {
                   notWebReady: true
                 }
               });
             }
+          } else {
+            extractorFailures.inc({ provider: 'animeunity', reason: 'mp4_missing' });
           }
         } catch (error) {
-          console.error(`Error processing version ${language_type}:`, error);
+          if (isUpstreamFailure(error) || currentAbortSignal()?.aborted) throw error;
+          log.error(`Error processing version "${version.name}"`, { error });
+          extractorFailures.inc({ provider: 'animeunity', reason: 'unknown' });
         }
+        return streams;
+      }));
+
+      // AnimeUnity non ha risposto per nessuna versione: lo segnala failedRequest
+      const failures = versionStreams.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failures.length === versionStreams.length) throw failures[0].reason;
+      for (const failure of failures) {
+        log.warn('Version skipped, AnimeUnity unreachable', { error: failure.reason });
+        extractorFailures.inc({ provider: 'animeunity', reason: 'upstream_failed' });
       }
-      
-      return { streams };
+      return { streams: versionStreams.flatMap(result => result.status === 'fulfilled' ? result.value : []) };
     } catch (error) {
-      console.error('Error handling Kitsu request:', error);
+      log.error('Error handling Kitsu request', { error });
+      return this.failedRequest(error);
+    }
+  }
+
+  /**
+   * Gestisce gli ID `animeunity:ID-SLUG:EPISODIO` usati dai cataloghi per i titoli senza mappatura Kitsu
+   */
+  handleAnimeUnityRequest(idString: string): Promise<{ streams: StreamForStremio[] }> {
+    return streamLoads.run(this.flightKey('animeunity', idString), () => this.loadAnimeUnityStreams(idString));
+  }
+
+  private async loadAnimeUnityStreams(idString: string): Promise<{ streams: StreamForStremio[] }> {
+    if (!this.config.enabled) {
       return { streams: [] };
     }
+
+    try {
+      const { animeId, slug, episodeNumber } = parseAnimeUnityId(idString);
+      const requested = parseFloat(episodeNumber || "1");
+
+      // Il record della pagina anime dà titolo e metadato `dub`; senza, si ripiega sullo slug
+      const [episodes, record] = await Promise.all([this.client.getEpisodes(animeId), this.client.getAnime(animeId, slug)]);
+      const version: AnimeUnitySearchResult = {
+        id: animeId,
+        slug,
+        name: record?.title_it || record?.title || record?.title_eng || slug.replace(/-/g, ' '),
+        episodes_count: record?.episodes_count || episodes.length,
+        dub: record?.dub === undefined || record?.dub === null ? undefined : Boolean(Number(record.dub))
+      };
+      const language = detectLanguage(version);
+
+      const resolved = Number.isNaN(requested) ? null : resolveEpisode(episodes, { episodeNumber: requested });
+      if (!resolved) {
+        extractorFailures.inc({ provider: 'animeunity', reason: 'episode_not_found' });
+        return { streams: [] };
+      }
+      const targetEpisode = resolved.episode;
+
+      const streamResult = await this.client.getStream(animeId, slug, targetEpisode.id);
+      if (!streamResult.mp4_url) {
+        extractorFailures.inc({ provider: 'animeunity', reason: 'mp4_missing' });
+        return { streams: [] };
+      }
+
+      const info = {
+        title: capitalize(version.name.replace(DUB_TITLE_PATTERN, '').trim()),
+        episode: Number.isInteger(requested) ? requested : undefined,
+        language: languageLabel(language)
+      };
+      const streams: StreamForStremio[] = [{
+        url: this.proxiedMp4Url(streamResult.mp4_url, streamResult.embed_url),
+        source: 'proxy',
+        language: streamLanguage(language),
+        info,
+        behaviorHints: {
+          notWebReady: true
+        }
+      }];
+
+      if (this.config.bothLink && streamResult.embed_url) {
+        streams.push({
+          url: streamResult.embed_url,
+          source: 'embed',
+          language: streamLanguage(language),
+          info,
+          behaviorHints: {
+            notWebReady: true
+          }
+        });
+      }
+
+      return { streams };
+    } catch (error) {
+      log.error('Error handling AnimeUnity request', { error });
+      return this.failedRequest(error);
+    }
+  }
+
+  // Un servizio esterno che non risponde viene propagato al registry; gli altri errori danno zero stream
+  private failedRequest(error: unknown): { streams: StreamForStremio[] } {
+    // Scadenza del registry: è già conteggiata come timeout
+    if (currentAbortSignal()?.aborted) throw error;
+    if (isUpstreamFailure(error)) {
+      extractorFailures.inc({ provider: 'animeunity', reason: 'upstream_failed' });
+      throw error;
+    }
+    extractorFailures.inc({ provider: 'animeunity', reason: 'unknown' });
+    return { streams: [] };
+  }
+}
+
+/**
+ * Costruisce l'ID Stremio per un titolo AnimeUnity: `animeunity:ID-SLUG`
+ */
+export function formatAnimeUnityId(animeId: number, slug: string): string {
+  return `animeunity:${animeId}-${slug}`;
+}
+
+export function parseAnimeUnityId(idString: string): { animeId: number; slug: string; episodeNumber: string | null } {
+  const parts = idString.split(':');
+  const match = (parts[1] || '').match(/^(\d+)-(.+)$/);
+  if (parts[0] !== 'animeunity' || !match) {
+    throw new Error('Invalid AnimeUnity ID format. Use: animeunity:ID-SLUG or animeunity:ID-SLUG:EPISODE');
   }
+  return {
+    animeId: parseInt(match[1], 10),
+    slug: match[2],
+    episodeNumber: parts[2] || null
+  };
 }
 
 // Funzione di utilità per capitalizzare la prima lettera
@@ -0,0 +1,67 @@
+import { AnimeUnityProvider } from './animeunity-provider';
+import { StreamForStremio } from '../types/animeunity';
+import { animeMappingStore } from './anime-mapping';
+import { StreamProvider, StreamRequest, StreamProviderContext, ProviderStream } from '../types/stream-provider';
+import { Config } from '../utils/config';
+import { streamsReturned } from '../utils/metrics';
+import { renderStreamLabels } from '../utils/stream-template';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('animeunity');
+
+const SOURCE_LABELS: Record<StreamForStremio['source'], string> = { proxy: 'Proxy', direct: 'Direct', embed: 'Embed' };
+
+/**
+ * Stream AnimeUnity per ID animeunity e per gli ID (tt, kitsu, mal, anilist) presenti nella mappatura anime
+ */
+export class AnimeUnityStreamProvider implements StreamProvider {
+  id = 'animeunity';
+  name = 'AnimeUnity';
+  types = ['movie', 'series', 'anime'];
+  idPrefixes = ['tt', 'kitsu', 'animeunity', 'mal', 'anilist'];
+  timeoutMs = 12000;
+  configFields: StreamProvider['configFields'] = [
+    {
+      key: 'animeunityEnabled',
+      title: 'Enable AnimeUnity (Kitsu Catalog)',
+      type: 'checkbox',
+      description: 'Stream anime in italiano (SUB e DUB) per gli ID Kitsu, MAL, AniList e IMDb mappati'
+    }
+  ];
+
+  isEnabled(config: Config): boolean {
+    return config.animeUnityEnabled;
+  }
+
+  async getStreams({ id }: StreamRequest, { config, builtinProxyUrl }: StreamProviderContext): Promise<ProviderStream[]> {
+    // Mappatura offline: un ID tt può essere un anime, un ID mal/anilist può avere un equivalente Kitsu
+    const animeResolution = animeMappingStore.resolve(id);
+    if (!id.startsWith('animeunity:') && !animeResolution) return [];
+
+    log.info(`🎌 Processing anime ID: ${id}${animeResolution ? ` (${animeResolution.kitsuRequestId})` : ''}`);
+    const provider = new AnimeUnityProvider({
+      enabled: true,
+      mfpUrl: config.mfpUrl,
+      mfpPassword: config.mfpPassword,
+      bothLink: config.bothLink,
+      builtinProxyUrl
+    });
+    const { streams } = animeResolution
+      ? await provider.handleKitsuRequest(animeResolution.kitsuRequestId, animeResolution.absoluteOffset)
+      : await provider.handleAnimeUnityRequest(id);
+
+    log.info(`🎌 AnimeUnity streams found: ${streams.length}`);
+    return streams.map(({ url, source, language, info, behaviorHints }) => {
+      streamsReturned.inc({ provider: this.id, mode: source });
+      return {
+        stream: {
+          ...renderStreamLabels(config, { ...info, source: SOURCE_LABELS[source], provider: this.name }),
+          url,
+          behaviorHints
+        },
+        source,
+        language
+      };
+    });
+  }
+}
@@ -1,26 +1,70 @@
 import axios from 'axios';
-import { KitsuAnime } from '../types/animeunity';
+import { KitsuAnime, KitsuAnimeInfo } from '../types/animeunity';
+import { TtlCache } from '../utils/cache';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('kitsu');
 
 const TIMEOUT = 10000;
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const animeInfoCache = new TtlCache<KitsuAnimeInfo>({ maxEntries: 2000, defaultTtlMs: CACHE_TTL_MS });
+const malMappingCache = new TtlCache<string>({ maxEntries: 5000, defaultTtlMs: CACHE_TTL_MS });
 
 export class KitsuProvider {
-  async getAnimeInfo(kitsuId: string): Promise<{ title: string; date: string } | null> {
+  async getAnimeInfo(kitsuId: string): Promise<KitsuAnimeInfo | null> {
+    const cached = animeInfoCache.get(kitsuId);
+    if (cached) return cached;
+
     try {
       const response = await axios.get(`https://kitsu.io/api/edge/anime/${kitsuId}`, {
         timeout: TIMEOUT
       });
       
       const data: KitsuAnime = response.data.data;
-      const title = data.attributes.titles.en || data.attributes.canonicalTitle;
-      const date = data.attributes.startDate;
+      const { titles: kitsuTitles, canonicalTitle, abbreviatedTitles, startDate, episodeCount } = data.attributes;
+      const title = kitsuTitles.en || canonicalTitle;
+      const titles = [title, canonicalTitle, kitsuTitles.en, kitsuTitles.en_jp, kitsuTitles.ja_jp, ...(abbreviatedTitles || [])]
+        .filter((t): t is string => !!t && !!t.trim());
       
-      return { title, date };
+      const info: KitsuAnimeInfo = {
+        title,
+        date: startDate,
+        titles: Array.from(new Set(titles)),
+        startYear: startDate ? parseInt(startDate.slice(0, 4), 10) : null,
+        episodeCount: episodeCount || null
+      };
+      animeInfoCache.set(kitsuId, info);
+      return info;
     } catch (error) {
-      console.error(`Error fetching Kitsu info for ID ${kitsuId}:`, error);
+      log.error(`Error fetching Kitsu info for ID ${kitsuId}`, { error });
       return null;
     }
   }
 
+  /**
+   * Converte un ID MyAnimeList nel corrispondente ID Kitsu tramite l'API mappings
+   */
+  async getKitsuIdFromMal(malId: number | string): Promise<string | null> {
+    return malMappingCache.getOrLoad(String(malId), async () => {
+      try {
+        const response = await axios.get('https://kitsu.io/api/edge/mappings', {
+          params: {
+            'filter[externalSite]': 'myanimelist/anime',
+            'filter[externalId]': String(malId),
+            include: 'item'
+          },
+          timeout: TIMEOUT
+        });
+        const mapping = response.data?.data?.[0];
+        return mapping?.relationships?.item?.data?.id || null;
+      } catch (error) {
+        log.error(`Error fetching Kitsu mapping for MAL ID ${malId}`, { error });
+        return null;
+      }
+    });
+  }
+
   parseKitsuId(kitsuIdString: string): { kitsuId: string; seasonNumber: number | null; episodeNumber: number | null; isMovie: boolean } {
     const parts = kitsuIdString.split(':');
     if (parts.length < 2) {
@@ -30,40 +74,13 @@ export class KitsuProvider {
     if (parts.length === 2) {
       return { kitsuId, seasonNumber: null, episodeNumber: null, isMovie: true };
     } else if (parts.length === 3) {
-      // kitsu:ID:EPISODIO
-      return { kitsuId, seasonNumber: null, episodeNumber: parseInt(parts[2]), isMovie: false };
+      // kitsu:ID:EPISODIO (EPISODIO può essere 0 o decimale per gli speciali, es. 12.5)
+      return { kitsuId, seasonNumber: null, episodeNumber: parseFloat(parts[2]), isMovie: false };
     } else if (parts.length === 4) {
       // kitsu:ID:STAGIONE:EPISODIO
-      return { kitsuId, seasonNumber: parseInt(parts[2]), episodeNumber: parseInt(parts[3]), isMovie: false };
+      return { kitsuId, seasonNumber: parseInt(parts[2]), episodeNumber: parseFloat(parts[3]), isMovie: false };
     } else {
       throw new Error('Invalid Kitsu ID format');
     }
   }
-
-  normalizeTitle(title: string): string {
-    const replacements: Record<string, string> = {
-      'Attack on Titan': "L'attacco dei Giganti",
-      'Season': '',
-      'Shippuuden': 'Shippuden'
-    };
-    
-    let normalized = title;
-    for (const [key, value] of Object.entries(replacements)) {
-      normalized = normalized.replace(key, value);
-    }
-    
-    if (normalized.includes('Naruto:')) {
-      normalized = normalized.replace(':', '');
-    }
-    
-    if (normalized.includes("'")) {
-      normalized = normalized.split("'")[0];
-    }
-    
-    if (normalized.includes(':')) {
-      normalized = normalized.split(':')[0];
-    }
-    
-    return normalized.trim();
-  }
 }
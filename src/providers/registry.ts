@@ -0,0 +1,87 @@
+import { StreamProvider, StreamRequest, StreamProviderContext, ProviderConfigField, ProviderStream } from '../types/stream-provider';
+import { Config } from '../utils/config';
+import { runWithAbortSignal } from '../utils/http';
+import { createLogger } from '../utils/logger';
+import { TimeoutError, withTimeout } from '../utils/timeout';
+import { AnimeUnityStreamProvider } from './animeunity-stream-provider';
+import { VixSrcStreamProvider } from './vixsrc-stream-provider';
+
+const log = createLogger('providers');
+
+/**
+ * Provider di stream registrati. L'ordine è quello in cui gli stream vengono mostrati in Stremio;
+ * per aggiungere una sorgente basta implementare StreamProvider e registrarla qui.
+ */
+export const streamProviders: StreamProvider[] = [
+  new AnimeUnityStreamProvider(),
+  new VixSrcStreamProvider()
+];
+
+export function getProviderConfigFields(): ProviderConfigField[] {
+  return streamProviders.flatMap(provider => provider.configFields.map(field => ({ group: provider.name, ...field })));
+}
+
+// Provider attivi con questa configurazione che supportano tipo e prefisso dell'ID richiesto
+export function getStreamProvidersFor(request: StreamRequest, config: Config): StreamProvider[] {
+  return streamProviders.filter(provider =>
+    provider.isEnabled(config) &&
+    provider.types.includes(request.type) &&
+    provider.idPrefixes.some(prefix => request.id.startsWith(prefix))
+  );
+}
+
+export interface ProviderRunOptions {
+  /** Tempo massimo complessivo, dall'inizio della richiesta */
+  deadlineMs: number;
+  /** Timeout per provider che sovrascrivono quelli di default */
+  timeoutsMs?: Record<string, number>;
+}
+
+export interface ProviderRunResult {
+  streams: ProviderStream[];
+  /** Nomi dei provider che non hanno risposto in tempo */
+  timedOut: string[];
+  /** Nomi dei provider falliti per un errore (es. sito o TMDB non raggiungibili) */
+  failed: string[];
+}
+
+/**
+ * Interroga i provider in parallelo. Ognuno ha il proprio timeout, limitato dalla scadenza complessiva:
+ * gli stream dei provider che hanno risposto in tempo vengono restituiti nell'ordine del registry.
+ * Allo scadere, le chiamate HTTP ancora in corso del provider (anche annidate) vengono annullate.
+ */
+export async function runStreamProviders(
+  providers: StreamProvider[],
+  request: StreamRequest,
+  context: StreamProviderContext,
+  { deadlineMs, timeoutsMs = {} }: ProviderRunOptions
+): Promise<ProviderRunResult> {
+  const timedOut = new Set<string>();
+  const failed = new Set<string>();
+  const results = await Promise.all(providers.map(async provider => {
+    // I provider partono insieme: il minimo tra timeout e scadenza complessiva è la loro scadenza effettiva
+    const timeoutMs = Math.min(timeoutsMs[provider.id] ?? provider.timeoutMs, deadlineMs);
+    const controller = new AbortController();
+    try {
+      return await withTimeout(
+        runWithAbortSignal(controller.signal, () => provider.getStreams(request, { ...context, signal: controller.signal })),
+        timeoutMs
+      );
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        controller.abort(error);
+        log.warn(`⏱️ ${provider.name} timed out after ${timeoutMs} ms`);
+        timedOut.add(provider.name);
+      } else {
+        log.error(`🚨 ${provider.name} error`, { error });
+        failed.add(provider.name);
+      }
+      return [];
+    }
+  }));
+  return {
+    streams: results.flat(),
+    timedOut: providers.filter(provider => timedOut.has(provider.name)).map(provider => provider.name),
+    failed: providers.filter(provider => failed.has(provider.name)).map(provider => provider.name)
+  };
+}
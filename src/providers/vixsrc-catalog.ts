@@ -0,0 +1,72 @@
+import { TMDB_API_BASE_URL } from '../extractor';
+import { VixSrcIndex, VixSrcListType } from './vixsrc-index';
+import { TtlCache } from '../utils/cache';
+import { fetchUpstream } from '../utils/http';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('vixsrc-catalog');
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/w500";
+const PAGE_SIZE = 50;
+const META_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const VIXSRC_CATALOGS = [
+  { type: "movie", id: "vixsrc_new_movies", name: "Nuovi film su VixSrc", extra: [{ name: "skip" }] },
+  { type: "series", id: "vixsrc_new_series", name: "Nuove serie su VixSrc", extra: [{ name: "skip" }] }
+];
+
+export interface CatalogMetaPreview {
+  id: string;
+  type: string;
+  name: string;
+  poster?: string;
+  description?: string;
+  releaseInfo?: string;
+}
+
+const metaCache = new TtlCache<CatalogMetaPreview>({ maxEntries: 5000, defaultTtlMs: META_CACHE_TTL_MS });
+
+async function getTmdbMetaPreview(tmdbId: string, listType: VixSrcListType, tmdbApiKey: string): Promise<CatalogMetaPreview | null> {
+  return metaCache.getOrLoad(`${listType}:${tmdbId}`, async () => {
+    const detailsUrl = `${TMDB_API_BASE_URL}/${listType}/${tmdbId}?api_key=${tmdbApiKey}&language=it&append_to_response=external_ids`;
+    try {
+      const response = await fetchUpstream(detailsUrl);
+      if (!response.ok) {
+        log.error(`Failed to fetch TMDB details for ${listType}/${tmdbId}: ${response.status}`);
+        return null;
+      }
+      const data = await response.json();
+      // Il resto dell'addon lavora con ID IMDb: senza mappatura il titolo non sarebbe riproducibile
+      const imdbId: string | undefined = data.imdb_id || data.external_ids?.imdb_id;
+      if (!imdbId) return null;
+
+      const releaseDate: string | undefined = data.release_date || data.first_air_date;
+      return {
+        id: imdbId,
+        type: listType === 'movie' ? 'movie' : 'series',
+        name: data.title || data.name,
+        poster: data.poster_path ? `${TMDB_IMAGE_BASE_URL}${data.poster_path}` : undefined,
+        description: data.overview || undefined,
+        releaseInfo: releaseDate ? releaseDate.slice(0, 4) : undefined
+      };
+    } catch (error) {
+      log.error(`Error fetching TMDB details for ${listType}/${tmdbId}`, { error });
+      return null;
+    }
+  });
+}
+
+/**
+ * Costruisce il catalogo "nuovi su VixSrc" per il tipo Stremio richiesto
+ */
+export async function getVixSrcCatalog(index: VixSrcIndex, type: string, skip: number, tmdbApiKey?: string): Promise<CatalogMetaPreview[]> {
+  if (!tmdbApiKey) {
+    log.error("TMDB_API_KEY is not configured.");
+    return [];
+  }
+
+  const listType: VixSrcListType = type === 'movie' ? 'movie' : 'tv';
+  const entries = await index.recent(listType, skip, PAGE_SIZE);
+  const metas = await Promise.all(entries.map(entry => getTmdbMetaPreview(entry.tmdbId, listType, tmdbApiKey)));
+  return metas.filter((meta): meta is CatalogMetaPreview => meta !== null);
+}
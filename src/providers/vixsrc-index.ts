@@ -0,0 +1,136 @@
+import { MirrorSet } from '../utils/mirrors';
+import { UpstreamError } from '../utils/http';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('vixsrc-index');
+
+export type VixSrcListType = 'movie' | 'tv';
+
+export interface VixSrcIndexEntry {
+  tmdbId: string;
+  /** Timestamp (ms) della prima volta in cui l'ID è comparso nella lista */
+  firstSeen: number;
+  /** Posizione nella lista VixSrc al momento della prima comparsa */
+  position: number;
+}
+
+const DEFAULT_REFRESH_INTERVAL_MS = 30 * 60 * 1000;
+
+/**
+ * Indice in memoria delle liste `/api/list/movie` e `/api/list/tv` di VixSrc.
+ * Le liste vengono scaricate in background e l'indice risponde in O(1)
+ * se un ID TMDB è disponibile, ricordando quando ogni ID è apparso la prima volta.
+ */
+export class VixSrcIndex {
+  private entries: Record<VixSrcListType, Map<string, VixSrcIndexEntry>> = {
+    movie: new Map(),
+    tv: new Map()
+  };
+  private loaded: Record<VixSrcListType, boolean> = { movie: false, tv: false };
+  private pendingRefresh: Partial<Record<VixSrcListType, Promise<void>>> = {};
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private mirrors: MirrorSet) {}
+
+  /**
+   * Avvia l'aggiornamento periodico di entrambe le liste
+   */
+  start(intervalMs: number = DEFAULT_REFRESH_INTERVAL_MS): void {
+    if (this.timer) return;
+    void this.refreshAll();
+    this.timer = setInterval(() => void this.refreshAll(), intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async refreshAll(): Promise<void> {
+    await Promise.all([this.refresh('movie'), this.refresh('tv')]);
+  }
+
+  /**
+   * Scarica la lista indicata e aggiorna l'indice. Richieste concorrenti
+   * per la stessa lista condividono lo stesso download.
+   */
+  refresh(type: VixSrcListType): Promise<void> {
+    const pending = this.pendingRefresh[type];
+    if (pending) return pending;
+
+    const promise = this.loadList(type).finally(() => {
+      delete this.pendingRefresh[type];
+    });
+    this.pendingRefresh[type] = promise;
+    return promise;
+  }
+
+  private async loadList(type: VixSrcListType): Promise<void> {
+    const listPath = `/api/list/${type}?lang=it`;
+    try {
+      log.info(`Refreshing VixSrc ${type} list from ${this.mirrors.active}${listPath}`);
+      const { response } = await this.mirrors.fetch(listPath);
+      if (!response.ok) {
+        log.error(`Failed to fetch VixSrc list for type ${type}, status: ${response.status}`);
+        return;
+      }
+      const data = await response.json();
+      if (!Array.isArray(data)) {
+        log.error(`VixSrc list for type ${type} is not in the expected format.`);
+        return;
+      }
+
+      const now = Date.now();
+      const current = this.entries[type];
+      const next = new Map<string, VixSrcIndexEntry>();
+      let added = 0;
+
+      data.forEach((item: any, position: number) => {
+        if (!item || item.tmdb_id === undefined || item.tmdb_id === null) return;
+        const tmdbId = item.tmdb_id.toString();
+        const existing = current.get(tmdbId);
+        if (existing) {
+          next.set(tmdbId, existing);
+        } else {
+          next.set(tmdbId, { tmdbId, firstSeen: now, position });
+          added++;
+        }
+      });
+
+      this.entries[type] = next;
+      this.loaded[type] = true;
+      log.info(`${type} list loaded with ${next.size} ids (${added} new).`);
+    } catch (error) {
+      log.error(`Error refreshing VixSrc ${type} list`, { error });
+    }
+  }
+
+  /**
+   * Verifica se un ID TMDB è disponibile su VixSrc.
+   * Se la lista non è mai stata caricata, la scarica prima di rispondere;
+   * se VixSrc non la restituisce lancia UpstreamError invece di rispondere "non disponibile".
+   */
+  async has(type: VixSrcListType, tmdbId: string): Promise<boolean> {
+    if (!this.loaded[type]) {
+      await this.refresh(type);
+      if (!this.loaded[type]) throw new UpstreamError(new URL(this.mirrors.active).host, `VixSrc ${type} list unavailable`);
+    }
+    return this.entries[type].has(tmdbId.toString());
+  }
+
+  /**
+   * Restituisce gli ID più recenti: prima per data di prima comparsa,
+   * poi per posizione nella lista (VixSrc aggiunge i nuovi titoli in fondo).
+   */
+  async recent(type: VixSrcListType, skip = 0, limit = 50): Promise<VixSrcIndexEntry[]> {
+    if (!this.loaded[type]) {
+      await this.refresh(type);
+    }
+    return Array.from(this.entries[type].values())
+      .sort((a, b) => (b.firstSeen - a.firstSeen) || (b.position - a.position))
+      .slice(skip, skip + limit);
+  }
+}
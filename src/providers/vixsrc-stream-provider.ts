@@ -0,0 +1,97 @@
+import { getStreamContent, ExtractorConfig } from '../extractor';
+import { animeMappingStore } from './anime-mapping';
+import { buildPlayUrl } from '../play';
+import { StreamProvider, StreamRequest, StreamProviderContext, ProviderStream } from '../types/stream-provider';
+import { Config } from '../utils/config';
+import { streamsReturned } from '../utils/metrics';
+import { renderStreamLabels } from '../utils/stream-template';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('vixsrc');
+
+const ANIME_ID_PREFIXES = ['kitsu:', 'animeunity:', 'mal:', 'anilist:'];
+
+/**
+ * Stream VixSrc per ID IMDb, inclusi quelli ricavati dalla mappatura anime per gli ID kitsu/mal/anilist
+ */
+export class VixSrcStreamProvider implements StreamProvider {
+  id = 'vixsrc';
+  name = 'VixSrc';
+  types = ['movie', 'series', 'anime'];
+  idPrefixes = ['tt', 'kitsu', 'mal', 'anilist'];
+  timeoutMs = 10000;
+  configFields: StreamProvider['configFields'] = [
+    {
+      key: 'maxResolution',
+      title: 'Risoluzione massima (link Direct)',
+      type: 'select',
+      options: ['1080p', '720p', '480p'],
+      default: '1080p',
+      description: 'Le qualità superiori vengono nascoste; utile con connessioni lente'
+    }
+  ];
+
+  isEnabled(_: Config): boolean {
+    return true;
+  }
+
+  async getStreams({ id, type }: StreamRequest, { config, publicBaseUrl, builtinProxyUrl }: StreamProviderContext): Promise<ProviderStream[]> {
+    const isAnimeId = ANIME_ID_PREFIXES.some(prefix => id.startsWith(prefix));
+    const vixSrcId = isAnimeId ? animeMappingStore.resolve(id)?.imdbRequestId || null : id;
+    if (!vixSrcId) return [];
+
+    log.info(`📺 Processing ID with VixSrc: ${vixSrcId}`);
+    const vixSrcType = isAnimeId ? (vixSrcId.includes(':') ? 'series' : 'movie') : type;
+
+    const extractorConfig: ExtractorConfig = {
+      tmdbApiKey: config.tmdbApiKey,
+      mfpUrl: config.mfpUrl,
+      mfpPsw: config.mfpPassword,
+      bothLink: config.bothLink,
+      maxResolution: config.maxResolution,
+      builtinProxyUrl
+    };
+
+    const res = await getStreamContent(vixSrcId, vixSrcType, extractorConfig);
+    if (!res) return [];
+
+    const streams: ProviderStream[] = [];
+    for (const st of res) {
+      if (st.streamUrl == null) continue;
+
+      const { name, title } = renderStreamLabels(config, {
+        title: st.title,
+        season: st.season,
+        episode: st.episode,
+        quality: st.quality,
+        source: st.source === 'proxy' ? 'Proxy' : 'Direct',
+        provider: this.name,
+        details: st.details
+      });
+      log.debug(`Adding stream with title: "${title}"`);
+      streamsReturned.inc({ provider: this.id, mode: st.source });
+
+      // I link diretti contengono un token che scade: Stremio riceve un link /play che lo rinnova
+      const url = st.source === 'direct' && st.pageUrl && publicBaseUrl
+        ? buildPlayUrl(publicBaseUrl, st.pageUrl, st.height)
+        : st.streamUrl;
+
+      streams.push({
+        stream: {
+          title,
+          name,
+          url,
+          behaviorHints: {
+            notWebReady: true,
+            headers: { "Referer": st.referer },
+          },
+        },
+        source: st.source,
+        // VixSrc serve le versioni doppiate in italiano
+        language: 'ita'
+      });
+    }
+    log.info(`📺 VixSrc streams found: ${res.length}`);
+    return streams;
+  }
+}
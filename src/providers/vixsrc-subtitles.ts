@@ -0,0 +1,135 @@
+import { createHash } from 'crypto';
+import { ContentType } from 'stremio-addon-sdk';
+import { getUrl, resolveVixCloudPlaylist, ExtractorConfig } from '../extractor';
+import { TtlCache } from '../utils/cache';
+import { HlsSubtitleRendition, parseSubtitleRenditions, parseMediaPlaylistSegments, mergeWebVttSegments } from '../utils/hls';
+import { toIso6392 } from '../utils/languages';
+import { fetchUpstream } from '../utils/http';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('vixsrc-subtitles');
+
+// Le tracce registrate puntano a URL con token VixCloud, validi qualche ora
+const TRACK_TTL_MS = 3 * 60 * 60 * 1000;
+// Il testo dei sottotitoli non cambia: teniamo i VTT già convertiti più a lungo
+const VTT_TTL_MS = 12 * 60 * 60 * 1000;
+// Limiti per traccia, per non bloccare il server su playlist anomale: segmenti, dimensione totale e tempo
+const MAX_SEGMENTS = 2000;
+const MAX_TRACK_CHARS = 5 * 1024 * 1024;
+const TRACK_DEADLINE_MS = 30 * 1000;
+// Segmenti scaricati in parallelo (i limiti per host di fetchUpstream valgono comunque)
+const SEGMENT_CONCURRENCY = 6;
+
+export const VIXSRC_SUBTITLES_RESOURCE = {
+  name: "subtitles",
+  types: ["movie", "series"],
+  idPrefixes: ["tt"]
+};
+
+interface SubtitleTrack {
+  url: string;
+  referer: string;
+}
+
+export interface StremioSubtitle {
+  id: string;
+  url: string;
+  lang: string;
+}
+
+const trackCache = new TtlCache<SubtitleTrack>({ maxEntries: 2000, defaultTtlMs: TRACK_TTL_MS });
+const vttCache = new TtlCache<string>({ maxEntries: 200, defaultTtlMs: VTT_TTL_MS });
+
+function trackKey(id: string, rendition: HlsSubtitleRendition): string {
+  return createHash('sha1')
+    .update(`${id}|${rendition.language || ''}|${rendition.name}|${rendition.forced}`)
+    .digest('hex')
+    .slice(0, 20);
+}
+
+async function fetchText(url: string, referer: string, signal?: AbortSignal): Promise<string> {
+  const response = await fetchUpstream(url, { headers: { "Referer": referer }, signal });
+  if (!response.ok) throw new Error(`Request to ${url} failed: ${response.status}`);
+  return response.text();
+}
+
+/**
+ * Restituisce le tracce sottotitoli della master playlist VixCloud per un ID IMDb (film o episodio).
+ * Ogni traccia viene registrata e servita come file VTT unico da `/subtitles-vtt/:key.vtt`.
+ */
+export async function getVixSrcSubtitles(id: string, type: ContentType, config: ExtractorConfig, publicBaseUrl: string): Promise<StremioSubtitle[]> {
+  const targetUrl = await getUrl(id, type, config);
+  if (!targetUrl) return [];
+
+  const { masterUrl, referer } = await resolveVixCloudPlaylist(targetUrl);
+  const renditions = parseSubtitleRenditions(await fetchText(masterUrl, referer), masterUrl);
+  log.info(`${renditions.length} subtitle tracks found for ${id}`);
+
+  return renditions.map(rendition => {
+    const key = trackKey(id, rendition);
+    trackCache.set(key, { url: rendition.url, referer });
+    const lang = toIso6392(rendition.language) || toIso6392(rendition.name) || 'und';
+    return {
+      id: `vixsrc-${lang}${rendition.forced ? '-forced' : ''}-${key}`,
+      url: `${publicBaseUrl}/subtitles-vtt/${key}.vtt`,
+      lang
+    };
+  });
+}
+
+/**
+ * Scarica una traccia registrata e la converte in un unico file WebVTT.
+ * Restituisce null se la chiave è sconosciuta o scaduta.
+ */
+export async function getSubtitleVtt(key: string): Promise<string | null> {
+  const track = trackCache.get(key);
+  if (!track) return vttCache.get(key) || null;
+
+  return vttCache.getOrLoad(key, async () => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error(`Subtitle track not downloaded within ${TRACK_DEADLINE_MS} ms`)), TRACK_DEADLINE_MS);
+    try {
+      const content = await fetchText(track.url, track.referer, controller.signal);
+      // Alcune tracce sono già un file VTT completo invece di una media playlist
+      if (content.replace(/^\uFEFF/, '').startsWith('WEBVTT')) {
+        return content;
+      }
+
+      const segmentUrls = parseMediaPlaylistSegments(content, track.url);
+      if (segmentUrls.length > MAX_SEGMENTS) {
+        log.warn(`Subtitle track ${key} has ${segmentUrls.length} segments, keeping the first ${MAX_SEGMENTS}`);
+      }
+      return mergeWebVttSegments(await fetchSegments(segmentUrls.slice(0, MAX_SEGMENTS), track.referer, controller));
+    } finally {
+      clearTimeout(timer);
+    }
+  });
+}
+
+/**
+ * Scarica i segmenti con concorrenza limitata, nell'ordine della playlist.
+ * Oltre MAX_TRACK_CHARS, o al primo errore, annulla i download ancora in corso.
+ */
+async function fetchSegments(urls: string[], referer: string, controller: AbortController): Promise<string[]> {
+  const segments = new Array<string>(urls.length);
+  let next = 0;
+  let totalChars = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      controller.signal.throwIfAborted();
+      const index = next++;
+      segments[index] = await fetchText(urls[index], referer, controller.signal);
+      totalChars += segments[index].length;
+      if (totalChars > MAX_TRACK_CHARS) throw new Error(`Subtitle track larger than ${MAX_TRACK_CHARS} characters`);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(SEGMENT_CONCURRENCY, urls.length) }, worker));
+  } catch (error) {
+    controller.abort(error);
+    throw error;
+  }
+  return segments;
+}
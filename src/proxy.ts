@@ -0,0 +1,201 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import express, { Request, Response } from 'express';
+import { rewritePlaylistUris, PlaylistUriKind } from './utils/hls';
+import { fetchUpstream } from './utils/http';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('proxy');
+
+// Validità dei link firmati: copre la durata di un film anche con pause lunghe
+const PROXY_URL_TTL_SECONDS = 12 * 60 * 60;
+// Header della risposta upstream inoltrati al player
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges', 'last-modified', 'etag'];
+
+export type ProxyKind = 'hls' | 'file';
+
+// Casuale finché configureProxySecret non imposta quello di PROXY_SECRET
+let proxySecret = randomBytes(32).toString('hex');
+
+/**
+ * Imposta la chiave HMAC dei link firmati (da EnvConfig.proxySecret)
+ */
+export function configureProxySecret(secret: string): void {
+  if (!secret) {
+    // Senza PROXY_SECRET i link restano validi solo fino al riavvio del server
+    log.warn('PROXY_SECRET not set, using a random secret (proxy links will expire on restart).');
+    return;
+  }
+  proxySecret = secret;
+}
+
+function base64UrlEncode(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64url');
+}
+
+function base64UrlDecode(value: string): string {
+  return Buffer.from(value, 'base64url').toString('utf8');
+}
+
+function sign(kind: ProxyKind, destination: string, headers: string, expires: string): string {
+  return createHmac('sha256', proxySecret)
+    .update(`${kind}\n${destination}\n${headers}\n${expires}`)
+    .digest('base64url');
+}
+
+function fileName(destination: string, kind: ProxyKind): string {
+  if (kind === 'hls') return 'playlist.m3u8';
+  try {
+    return new URL(destination).pathname.split('/').pop() || 'file';
+  } catch {
+    return 'file';
+  }
+}
+
+/**
+ * Costruisce un URL firmato del proxy integrato (`/proxy/hls/...` o `/proxy/file/...`).
+ * `headers` vengono inviati all'upstream (tipicamente Referer e Origin).
+ */
+export function buildProxyUrl(publicBaseUrl: string, kind: ProxyKind, destination: string, headers: Record<string, string> = {}): string {
+  const encodedHeaders = base64UrlEncode(JSON.stringify(headers));
+  const expires = String(Math.floor(Date.now() / 1000) + PROXY_URL_TTL_SECONDS);
+  const params = new URLSearchParams({
+    d: destination,
+    h: encodedHeaders,
+    exp: expires,
+    sig: sign(kind, destination, encodedHeaders, expires)
+  });
+  return `${publicBaseUrl}/proxy/${kind}/${encodeURIComponent(fileName(destination, kind))}?${params.toString()}`;
+}
+
+interface VerifiedProxyRequest {
+  destination: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Verifica firma e scadenza di una richiesta al proxy. Restituisce null se non è valida.
+ */
+function verifyProxyRequest(kind: ProxyKind, req: Request): VerifiedProxyRequest | null {
+  const { d, h, exp, sig } = req.query;
+  if (typeof d !== 'string' || typeof h !== 'string' || typeof exp !== 'string' || typeof sig !== 'string') {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(kind, d, h, exp));
+  const received = Buffer.from(sig);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+  if (parseInt(exp, 10) < Date.now() / 1000) return null;
+
+  try {
+    const protocol = new URL(d).protocol;
+    if (protocol !== 'http:' && protocol !== 'https:') return null;
+    return { destination: d, headers: JSON.parse(base64UrlDecode(h)) };
+  } catch {
+    return null;
+  }
+}
+
+function publicBaseUrlOf(req: Request): string {
+  const protocol = (req.headers['x-forwarded-proto'] as string | undefined)?.split(',')[0] || req.protocol;
+  return `${protocol}://${req.get('host')}`;
+}
+
+async function handleHls(req: Request, res: Response): Promise<void> {
+  const verified = verifyProxyRequest('hls', req);
+  if (!verified) {
+    res.status(403).send('Invalid or expired proxy link');
+    return;
+  }
+
+  const upstream = await fetchUpstream(verified.destination, { headers: verified.headers, hostLimits: false });
+  if (!upstream.ok) {
+    log.error(`HLS upstream responded ${upstream.status} for ${verified.destination}`);
+    res.status(upstream.status === 404 ? 404 : 502).send('Upstream playlist unavailable');
+    return;
+  }
+
+  const baseUrl = publicBaseUrlOf(req);
+  const playlist = rewritePlaylistUris(await upstream.text(), upstream.url || verified.destination, (url: string, kind: PlaylistUriKind) =>
+    buildProxyUrl(baseUrl, kind === 'playlist' ? 'hls' : 'file', url, verified.headers)
+  );
+
+  res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.send(playlist);
+}
+
+async function handleFile(req: Request, res: Response): Promise<void> {
+  const verified = verifyProxyRequest('file', req);
+  if (!verified) {
+    res.status(403).send('Invalid or expired proxy link');
+    return;
+  }
+
+  const headers: Record<string, string> = { ...verified.headers };
+  if (req.headers.range) headers['Range'] = req.headers.range;
+
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  // Segmenti e file del player: fuori dai limiti per host pensati per le chiamate API
+  const upstream = await fetchUpstream(verified.destination, { headers, signal: controller.signal, hostLimits: false });
+  if (!upstream.ok) {
+    log.error(`File upstream responded ${upstream.status} for ${verified.destination}`);
+    res.status(upstream.status === 404 || upstream.status === 416 ? upstream.status : 502).send('Upstream file unavailable');
+    return;
+  }
+
+  // Una GET riuscita senza body (es. 204) non ha nulla da inoltrare al player
+  if (!upstream.body && req.method !== 'HEAD') {
+    log.error(`File upstream responded ${upstream.status} without a body for ${verified.destination}`);
+    res.status(502).send('Upstream file unavailable');
+    return;
+  }
+
+  res.status(upstream.status);
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) res.setHeader(name, value);
+  }
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  if (req.method === 'HEAD' || !upstream.body) {
+    await upstream.body?.cancel().catch(() => undefined);
+    res.end();
+    return;
+  }
+  try {
+    await pipeline(Readable.fromWeb(upstream.body as WebReadableStream<Uint8Array>), res);
+  } catch (error) {
+    // Il player ha chiuso la connessione o cambiato posizione: fine normale, non un errore
+    if (isClientDisconnect(error, res)) return;
+    throw error;
+  }
+}
+
+function isClientDisconnect(error: unknown, res: Response): boolean {
+  const { name, code } = error as { name?: string; code?: string };
+  return name === 'AbortError' || code === 'ERR_STREAM_PREMATURE_CLOSE' || res.destroyed;
+}
+
+function withErrorHandling(handler: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response) => {
+    handler(req, res).catch(error => {
+      if ((error as Error).name === 'AbortError') return; // Il player ha chiuso la connessione
+      log.error('Request failed', { error });
+      if (!res.headersSent) res.status(502).send('Proxy error');
+      else res.end();
+    });
+  };
+}
+
+/**
+ * Route del proxy integrato: playlist HLS riscritte e file/segmenti con supporto Range
+ */
+export const proxyRouter = express.Router();
+proxyRouter.get('/proxy/hls/:name', withErrorHandling(handleHls));
+proxyRouter.get('/proxy/file/:name', withErrorHandling(handleFile));
@@ -0,0 +1,31 @@
+import * as fs from 'fs';
+import { BUNDLED_MAPPING_PATH, compactMappings } from '../providers/anime-mapping';
+import { loadEnvConfig } from '../utils/config';
+import { fetchUpstream } from '../utils/http';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('update-mappings');
+
+/**
+ * Rigenera lo snapshot data/anime-mappings.json dal dataset Fribb (o da ANIME_MAPPING_URL).
+ * Eseguito nel build Docker e da `pnpm run update-mappings`.
+ */
+async function main(): Promise<void> {
+  const sourceUrl = loadEnvConfig().animeMappingUrl;
+  log.info(`Downloading mappings from ${sourceUrl}`);
+  const response = await fetchUpstream(sourceUrl, { timeoutMs: 120 * 1000 });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  const data = await response.json();
+  if (!Array.isArray(data)) throw new Error('Mapping list is not in the expected format.');
+
+  const entries = compactMappings(data);
+  // Una voce per riga: lo snapshot resta leggibile nei diff
+  fs.writeFileSync(BUNDLED_MAPPING_PATH, `[\n${entries.map(entry => JSON.stringify(entry)).join(',\n')}\n]\n`);
+  log.info(`Saved ${entries.length} mappings to ${BUNDLED_MAPPING_PATH}`);
+}
+
+main().catch(error => {
+  log.error('Mapping snapshot update failed', { error });
+  process.exit(1);
+});
@@ -0,0 +1,204 @@
+import express, { Request, Response } from 'express';
+import { probeVixSrcSiteVersion, TMDB_API_BASE_URL, vixSrcMirrors } from './extractor';
+import { animeUnityMirrors } from './providers/animeunity-client';
+import { EnvConfig } from './utils/config';
+import { fetchUpstream } from './utils/http';
+import { createLogger } from './utils/logger';
+import { withTimeout } from './utils/timeout';
+
+const log = createLogger('status');
+
+const PROBE_TIMEOUT_MS = 8000;
+// Le sonde vengono rieseguite al massimo ogni 30 secondi, anche con molte richieste a /status
+const PROBE_CACHE_MS = 30 * 1000;
+
+type ProbeStatus = 'ok' | 'error' | 'skipped';
+
+interface ProbeDefinition {
+  name: string;
+  description: string;
+  /** Motivo per cui la sonda non viene eseguita (es. servizio non configurato) */
+  skipReason?: string;
+  /** Restituisce un dettaglio opzionale da mostrare (es. versione del sito) */
+  run: () => Promise<string | void>;
+}
+
+export interface ProbeResult {
+  name: string;
+  description: string;
+  status: ProbeStatus;
+  latencyMs: number | null;
+  detail: string | null;
+  lastSuccess: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  checkedAt: string | null;
+}
+
+async function httpProbe(url: string): Promise<string> {
+  const response = await fetchUpstream(url, { timeoutMs: PROBE_TIMEOUT_MS, retries: 0 });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return `HTTP ${response.status}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char] as string));
+}
+
+/**
+ * Sonde verso i servizi esterni usati da extractor e provider, con memoria dell'ultimo successo/errore
+ */
+class DependencyMonitor {
+  private results = new Map<string, ProbeResult>();
+  private lastRun = 0;
+  private running: Promise<ProbeResult[]> | null = null;
+
+  constructor(private probes: ProbeDefinition[]) {
+    for (const probe of probes) {
+      this.results.set(probe.name, {
+        name: probe.name,
+        description: probe.description,
+        status: probe.skipReason ? 'skipped' : 'error',
+        latencyMs: null,
+        detail: probe.skipReason || null,
+        lastSuccess: null,
+        lastError: null,
+        lastErrorAt: null,
+        checkedAt: null
+      });
+    }
+  }
+
+  private async runProbe(probe: ProbeDefinition): Promise<void> {
+    const result = this.results.get(probe.name)!;
+    if (probe.skipReason) return;
+
+    const startedAt = Date.now();
+    try {
+      const detail = await withTimeout(probe.run(), PROBE_TIMEOUT_MS);
+      result.status = 'ok';
+      result.detail = detail || null;
+      result.lastSuccess = new Date().toISOString();
+    } catch (error) {
+      result.status = 'error';
+      result.lastError = error instanceof Error ? error.message : String(error);
+      result.lastErrorAt = new Date().toISOString();
+      log.warn(`Probe ${probe.name} failed: ${result.lastError}`);
+    }
+    result.latencyMs = Date.now() - startedAt;
+    result.checkedAt = new Date().toISOString();
+  }
+
+  async check(): Promise<ProbeResult[]> {
+    if (Date.now() - this.lastRun < PROBE_CACHE_MS) return this.snapshot();
+    if (!this.running) {
+      this.running = Promise.all(this.probes.map(probe => this.runProbe(probe)))
+        .then(() => {
+          this.lastRun = Date.now();
+          return this.snapshot();
+        })
+        .finally(() => { this.running = null; });
+    }
+    return this.running;
+  }
+
+  private snapshot(): ProbeResult[] {
+    return Array.from(this.results.values()).map(result => ({ ...result }));
+  }
+}
+
+function renderStatusPage(overall: string, probes: ProbeResult[]): string {
+  const colors: Record<ProbeStatus, string> = { ok: '#2e7d32', error: '#c62828', skipped: '#757575' };
+  const rows = probes.map(probe => `
+      <tr>
+        <td><strong>${escapeHtml(probe.name)}</strong><br><small>${escapeHtml(probe.description)}</small></td>
+        <td style="color: ${colors[probe.status]}">${probe.status.toUpperCase()}</td>
+        <td>${probe.latencyMs !== null ? `${probe.latencyMs} ms` : '-'}</td>
+        <td>${escapeHtml(probe.detail || '-')}</td>
+        <td>${escapeHtml(probe.lastSuccess || '-')}</td>
+        <td>${probe.lastError ? `${escapeHtml(probe.lastError)}<br><small>${escapeHtml(probe.lastErrorAt || '')}</small>` : '-'}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>StreamViX - Stato servizi</title>
+  <style>
+    body { font-family: sans-serif; margin: 2em; color: #222; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.5em; text-align: left; vertical-align: top; }
+  </style>
+</head>
+<body>
+  <h1>Stato servizi: ${escapeHtml(overall)}</h1>
+  <table>
+    <tr><th>Servizio</th><th>Stato</th><th>Latenza</th><th>Dettagli</th><th>Ultimo successo</th><th>Ultimo errore</th></tr>${rows}
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * /health (liveness, per l'healthcheck Docker) e /status (readiness, con le sonde dei servizi esterni)
+ */
+export function createStatusRouter(envConfig: EnvConfig) {
+  const monitor = new DependencyMonitor([
+    {
+      name: 'vixsrc',
+      description: 'Sito VixSrc (versione del sito usata per gli iframe)',
+      run: async () => `versione ${await probeVixSrcSiteVersion()} (${vixSrcMirrors.active})`
+    },
+    {
+      name: 'tmdb',
+      description: 'API TMDB (conversione IMDb -> TMDB, titoli)',
+      skipReason: envConfig.tmdbApiKey ? undefined : 'TMDB_API_KEY non configurata',
+      run: () => httpProbe(`${TMDB_API_BASE_URL}/configuration?api_key=${envConfig.tmdbApiKey}`)
+    },
+    {
+      name: 'kitsu',
+      description: 'API Kitsu (titoli e mappature anime)',
+      run: () => httpProbe('https://kitsu.io/api/edge/anime?page[limit]=1')
+    },
+    {
+      name: 'animeunity',
+      description: 'Sito AnimeUnity',
+      run: async () => `${await httpProbe(`${animeUnityMirrors.active}/`)} (${animeUnityMirrors.active})`
+    },
+    {
+      name: 'mediaflow',
+      description: 'MediaFlow Proxy configurato tramite MFP_URL',
+      skipReason: envConfig.mfpUrl ? undefined : 'MFP_URL non configurato',
+      run: () => httpProbe(`${envConfig.mfpUrl.replace(/\/$/, '')}/health`)
+    }
+  ]);
+  const startedAt = Date.now();
+
+  const router = express.Router();
+
+  router.get('/health', (_: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ status: 'ok', uptimeSeconds: Math.round((Date.now() - startedAt) / 1000) });
+  });
+
+  router.get('/status', async (req: Request, res: Response) => {
+    const probes = await monitor.check();
+    const overall = probes.some(probe => probe.status === 'error') ? 'degraded' : 'ok';
+
+    res.status(overall === 'ok' ? 200 : 503);
+    res.setHeader('Cache-Control', 'no-store');
+    if (req.query.format === 'html' || (req.query.format !== 'json' && req.accepts(['json', 'html']) === 'html')) {
+      res.setHeader('Content-Type', 'text/html');
+      res.send(renderStatusPage(overall, probes));
+      return;
+    }
+    res.json({
+      status: overall,
+      checkedAt: new Date().toISOString(),
+      probes,
+      mirrors: { vixsrc: vixSrcMirrors.snapshot(), animeunity: animeUnityMirrors.snapshot() }
+    });
+  });
+
+  return router;
+}
@@ -8,11 +8,9 @@ declare module 'stremio-addon-sdk' {
   export class addonBuilder {
     constructor(manifest: Manifest);
     defineStreamHandler(handler: any): void;
-    /* Altri metodi del vero SDK non indispensabili al compile-time     */
-    defineCatalogHandler?: any;
-    defineMetaHandler?: any;
-    defineSubtitlesHandler?: any;
-    defineSubtitleHandler?: any;
+    defineCatalogHandler(handler: any): void;
+    defineMetaHandler(handler: any): void;
+    defineSubtitlesHandler(handler: any): void;
     getInterface(): any;
   }
 
@@ -31,7 +29,7 @@ declare module 'stremio-addon-sdk' {
     icon?: string;
     background?: string;
 
-    resources: string[];
+    resources: (string | { name: string; types?: string[]; idPrefixes?: string[] })[];
     types: string[];
     idPrefixes?: string[];
     catalogs?: any[];
@@ -45,7 +43,8 @@ declare module 'stremio-addon-sdk' {
   export interface Stream {
     title?: string;
     name?: string;
-    url: string;
+    url?: string;
+    externalUrl?: string;
     behaviorHints?: any;
     headers?: Record<string, string>;
     [k: string]: any;
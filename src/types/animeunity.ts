@@ -1,28 +1,92 @@
+import { StreamTemplateValues } from '../utils/stream-template';
+import { StreamLanguage, StreamSource } from './stream-provider';
+
 export interface AnimeUnityConfig {
   mfpUrl: string;
   mfpPassword: string;
   bothLink: boolean;
   enabled: boolean;
+  /** URL pubblico dell'addon, se il proxy integrato è attivo */
+  builtinProxyUrl?: string;
 }
 
-export interface AnimeUnityResult {
+export interface AnimeUnitySearchResult {
   id: number;
   slug: string;
   name: string;
   episodes_count: number;
-  language_type: 'Original' | 'Italian Dub' | 'Italian Sub';
+  // Tutti i titoli noti (it, eng, romaji) e anno di uscita, usati per il matching con Kitsu
+  titles?: string[];
+  date?: string;
+  /** Campo `dub` di AnimeUnity, se presente nel record */
+  dub?: boolean;
+  /** Trovato dalla ricerca nell'archivio con il filtro doppiati attivo */
+  dubbedSearch?: boolean;
+}
+
+/**
+ * Lingua di una versione AnimeUnity: i doppiaggi hanno audio italiano, le altre versioni
+ * audio originale con sottotitoli italiani
+ */
+export interface AnimeUnityLanguage {
+  audio: 'ita' | 'original';
+  subtitles: 'ita' | null;
+  /** Da dove viene l'informazione, dalla più affidabile: metadato `dub`, filtro doppiati, "(ITA)" nel titolo, default */
+  source: 'metadata' | 'dubbed_search' | 'title' | 'default';
+}
+
+export interface AnimeUnityVersion {
+  version: AnimeUnitySearchResult;
+  language: AnimeUnityLanguage;
 }
 
 export interface AnimeUnityEpisode {
   id: number;
-  number: number;
+  number: string;
+  name?: string;
+  /** Data di pubblicazione su AnimeUnity, es. "2024-01-07 18:30:12" */
+  created_at?: string;
+}
+
+export interface AnimeUnityStreamData {
+  episode_page: string | null;
+  embed_url: string | null;
+  mp4_url: string | null;
+}
+
+export interface AnimeUnityGenre {
+  id: number;
   name: string;
 }
 
-export interface StreamData {
-  embed_url?: string;
-  mp4_url?: string;
-  episode_page?: string;
+// Record restituito da /archivio/get-animes e dagli attributi della pagina anime
+export interface AnimeUnityArchiveRecord {
+  id: number;
+  slug: string;
+  title?: string;
+  title_eng?: string;
+  title_it?: string;
+  imageurl?: string;
+  cover?: string;
+  plot?: string;
+  date?: string;
+  type?: string;
+  status?: string;
+  episodes_count?: number;
+  mal_id?: number | null;
+  anilist_id?: number | null;
+  /** 1 per le versioni doppiate in italiano */
+  dub?: number | boolean;
+  genres?: AnimeUnityGenre[];
+}
+
+export interface AnimeUnityArchiveFilters {
+  title?: string;
+  order?: 'Lista A-Z' | 'Lista Z-A' | 'Popolarità' | 'Valutazione';
+  status?: 'In Corso' | 'Terminato' | 'In Uscita' | 'Droppato';
+  genres?: AnimeUnityGenre[];
+  dubbed?: boolean;
+  offset?: number;
 }
 
 export interface KitsuAnime {
@@ -30,17 +94,35 @@ export interface KitsuAnime {
   attributes: {
     titles: {
       en?: string;
+      en_jp?: string;
       ja_jp?: string;
     };
     canonicalTitle: string;
+    abbreviatedTitles?: string[] | null;
     startDate: string;
+    episodeCount?: number | null;
+    subtype?: string;
   };
 }
 
+export interface KitsuAnimeInfo {
+  title: string;
+  date: string;
+  // Titolo principale seguito da en, en_jp, ja_jp e titoli abbreviati, senza duplicati
+  titles: string[];
+  startYear: number | null;
+  episodeCount: number | null;
+}
+
 // ✅ AGGIUNTO: Export mancante
 export interface StreamForStremio {
-  title: string;
   url: string;
+  /** proxy = mp4 tramite MediaFlow o proxy integrato, embed = pagina VixCloud (BOTHLINK) */
+  source: StreamSource;
+  /** Audio della versione AnimeUnity; assente per gli ID animeunity senza ricerca delle versioni */
+  language?: StreamLanguage;
+  /** Valori per i template di nome e titolo, applicati da AnimeUnityStreamProvider */
+  info: StreamTemplateValues;
   behaviorHints: {
     notWebReady?: boolean;
     [key: string]: any;
@@ -0,0 +1,68 @@
+import { Stream } from 'stremio-addon-sdk';
+import { Config } from '../utils/config';
+
+// Campo della pagina di configurazione, nel formato di `manifest.config`
+export interface ProviderConfigField {
+  key: string;
+  title: string;
+  type: 'text' | 'password' | 'checkbox' | 'select' | 'number';
+  options?: string[];
+  default?: string;
+  /** Spiegazione mostrata sotto il campo nella pagina di configurazione */
+  description?: string;
+  /** Sezione della pagina di configurazione; per i campi dei provider è il nome del provider */
+  group?: string;
+}
+
+/** Audio degli stream: ita = doppiato in italiano, sub = audio originale con sottotitoli italiani */
+export type StreamLanguage = 'ita' | 'sub';
+/** Tipo di link: tramite proxy (MediaFlow o integrato), diretto o pagina embed */
+export type StreamSource = 'proxy' | 'direct' | 'embed';
+
+/**
+ * Stream di un provider con i dati usati per ordinarlo e filtrarlo secondo le preferenze dell'utente
+ */
+export interface ProviderStream {
+  stream: Stream;
+  source: StreamSource;
+  /** Assente se il provider non conosce la lingua */
+  language?: StreamLanguage;
+}
+
+export interface StreamRequest {
+  id: string;
+  type: string;
+}
+
+// Dati della singola richiesta condivisi da tutti i provider
+export interface StreamProviderContext {
+  config: Config;
+  /** URL pubblico dell'addon, per i link serviti da questo server (es. /play) */
+  publicBaseUrl: string;
+  /** URL pubblico dell'addon, se il proxy integrato è attivo */
+  builtinProxyUrl?: string;
+  /**
+   * Scatta alla scadenza del provider (impostato dal registry). Le chiamate fatte con fetchUpstream
+   * o axios lo rispettano già; serve solo per fermare lavoro che non passa da HTTP
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Sorgente di stream registrata nel registry: l'handler stream di addon.ts interroga
+ * tutti i provider attivi che supportano il tipo e il prefisso dell'ID richiesto.
+ */
+export interface StreamProvider {
+  id: string;
+  name: string;
+  /** Tipi Stremio per cui il provider può restituire stream */
+  types: string[];
+  /** Prefissi degli ID gestiti, eventualmente tramite la mappatura anime */
+  idPrefixes: string[];
+  /** Timeout di default, sovrascrivibile con PROVIDER_TIMEOUTS */
+  timeoutMs: number;
+  /** Campi aggiunti automaticamente a `manifest.config` */
+  configFields: ProviderConfigField[];
+  isEnabled(config: Config): boolean;
+  getStreams(request: StreamRequest, context: StreamProviderContext): Promise<ProviderStream[]>;
+}
@@ -0,0 +1,220 @@
+import { KitsuAnimeInfo } from '../types/animeunity';
+import { createLogger } from './logger';
+
+const log = createLogger('animeunity');
+
+// Punteggio minimo perché un risultato AnimeUnity venga considerato lo stesso anime del titolo Kitsu
+const MATCH_THRESHOLD = 0.65;
+// Numero massimo di query inviate ad AnimeUnity per un singolo titolo Kitsu
+const MAX_SEARCH_QUERIES = 2;
+
+const ROMAN_NUMERALS: Record<string, string> = { ii: '2', iii: '3', iv: '4', v: '5', vi: '6' };
+const STOP_WORDS = new Set(['the', 'season', 'stagione', 'part', 'parte', 'cour', 'ita', 'tv']);
+
+export interface MatchCandidate {
+  name: string;
+  slug?: string;
+  titles?: string[];
+  date?: string;
+  episodes_count?: number;
+}
+
+export interface MatchOptions {
+  /** Stagione richiesta (kitsu:ID:STAGIONE:EPISODIO), usata quando il titolo Kitsu non ne indica una */
+  season?: number | null;
+}
+
+export interface ScoredMatch<T extends MatchCandidate> {
+  candidate: T;
+  score: number;
+  reasons: string[];
+}
+
+function normalize(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\(ita\)/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean)
+    .map(word => ROMAN_NUMERALS[word] || word)
+    .join(' ');
+}
+
+/**
+ * Estrae il numero di stagione/sequel da un titolo normalizzato ("season 2", "2nd season", "parte 2", "titolo 2")
+ */
+function sequelNumber(normalized: string): number | null {
+  const patterns = [
+    /\b(?:season|stagione|part|parte|cour)\s+(\d+)\b/,
+    /\b(\d+)(?:st|nd|rd|th)\s+season\b/,
+    /\s(\d)$/
+  ];
+  for (const pattern of patterns) {
+    const match = normalized.match(pattern);
+    if (match) return parseInt(match[1], 10);
+  }
+  return null;
+}
+
+function isMovieTitle(normalized: string): boolean {
+  return /\b(?:movie|film|gekijouban)\b/.test(normalized);
+}
+
+/**
+ * Titolo ridotto all'essenziale: senza indicatori di stagione, parole comuni e numeri finali
+ */
+function baseTitle(normalized: string): string {
+  return normalized
+    .replace(/\b(\d+)(?:st|nd|rd|th)\s+season\b/g, ' ')
+    .replace(/\b(?:season|stagione|part|parte|cour)\s+\d+\b/g, ' ')
+    .replace(/\s\d$/, ' ')
+    .split(' ')
+    .filter(word => word && !STOP_WORDS.has(word))
+    .join(' ');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const compact = text.replace(/\s+/g, '');
+  const result = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    result.set(gram, (result.get(gram) || 0) + 1);
+  }
+  return result;
+}
+
+/**
+ * Coefficiente di Dice sui bigrammi di caratteri (0 = diversi, 1 = identici)
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let totalA = 0;
+  let totalB = 0;
+  let overlap = 0;
+  gramsA.forEach(count => { totalA += count; });
+  gramsB.forEach((count, gram) => {
+    totalB += count;
+    overlap += Math.min(count, gramsA.get(gram) || 0);
+  });
+  return totalA + totalB === 0 ? 0 : (2 * overlap) / (totalA + totalB);
+}
+
+function candidateTitles(candidate: MatchCandidate): string[] {
+  const titles = [candidate.name, ...(candidate.titles || [])];
+  if (candidate.slug) titles.push(candidate.slug.replace(/-/g, ' '));
+  return titles.filter(Boolean);
+}
+
+function firstSequelNumber(titles: string[]): number {
+  for (const title of titles) {
+    const number = sequelNumber(normalize(title));
+    if (number !== null) return number;
+  }
+  return 1;
+}
+
+/**
+ * Calcola quanto un risultato AnimeUnity corrisponde al titolo Kitsu, con le motivazioni delle penalità
+ */
+export function scoreCandidate<T extends MatchCandidate>(info: KitsuAnimeInfo, candidate: T, options: MatchOptions = {}): ScoredMatch<T> {
+  const reasons: string[] = [];
+  const kitsuNormalized = info.titles.map(normalize).filter(Boolean);
+  const titles = candidateTitles(candidate);
+  const candidateNormalized = titles.map(normalize).filter(Boolean);
+
+  let titleScore = 0;
+  for (const kitsuTitle of kitsuNormalized) {
+    for (const candidateTitle of candidateNormalized) {
+      titleScore = Math.max(titleScore, similarity(baseTitle(kitsuTitle), baseTitle(candidateTitle)));
+    }
+  }
+  let score = titleScore;
+  if (titleScore < MATCH_THRESHOLD) {
+    reasons.push(`titolo simile solo al ${Math.round(titleScore * 100)}%`);
+  }
+
+  let kitsuSequel = firstSequelNumber(info.titles);
+  if (kitsuSequel === 1 && options.season && options.season > 1) {
+    kitsuSequel = options.season;
+  }
+  const candidateSequel = firstSequelNumber(titles);
+  if (kitsuSequel !== candidateSequel) {
+    score -= 0.35;
+    reasons.push(`stagione ${candidateSequel} invece di ${kitsuSequel}`);
+  }
+
+  if (kitsuNormalized.some(isMovieTitle) !== candidateNormalized.some(isMovieTitle)) {
+    score -= 0.2;
+    reasons.push('film/serie non corrispondenti');
+  }
+
+  const candidateYear = candidate.date ? parseInt(candidate.date.slice(0, 4), 10) : NaN;
+  if (info.startYear && !isNaN(candidateYear)) {
+    const yearDiff = Math.abs(candidateYear - info.startYear);
+    if (yearDiff === 0) {
+      score += 0.1;
+    } else if (yearDiff > 1) {
+      score -= 0.25;
+      reasons.push(`anno ${candidateYear} invece di ${info.startYear}`);
+    }
+  }
+
+  const candidateEpisodes = candidate.episodes_count || 0;
+  if (info.episodeCount && candidateEpisodes > 0) {
+    if (candidateEpisodes === info.episodeCount) {
+      score += 0.05;
+    } else if (candidateEpisodes > info.episodeCount + Math.max(2, info.episodeCount * 0.25)) {
+      // Meno episodi è normale per serie in corso, molti di più indica un'altra serie
+      score -= 0.15;
+      reasons.push(`${candidateEpisodes} episodi invece di ${info.episodeCount}`);
+    }
+  }
+
+  return { candidate, score, reasons };
+}
+
+/**
+ * Restituisce solo i risultati con punteggio sufficiente, ordinati dal migliore.
+ * I risultati scartati vengono loggati con il motivo.
+ */
+export function selectMatches<T extends MatchCandidate>(info: KitsuAnimeInfo, candidates: T[], options: MatchOptions = {}): ScoredMatch<T>[] {
+  const scored = candidates.map(candidate => scoreCandidate(info, candidate, options));
+  const accepted: ScoredMatch<T>[] = [];
+
+  for (const match of scored) {
+    const label = `"${match.candidate.name}" (score ${match.score.toFixed(2)})`;
+    if (match.score >= MATCH_THRESHOLD) {
+      accepted.push(match);
+    } else {
+      log.info(`Scartato ${label}: ${match.reasons.join(', ') || 'punteggio troppo basso'}`);
+    }
+  }
+
+  return accepted.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Query di ricerca per AnimeUnity: titoli latini di Kitsu senza sottotitolo né stagione
+ */
+export function buildSearchQueries(info: KitsuAnimeInfo): string[] {
+  const queries: string[] = [];
+  for (const title of info.titles) {
+    if (!/[a-z]/i.test(title)) continue; // AnimeUnity non indicizza i titoli in giapponese
+    const query = title
+      .split(':')[0]
+      .replace(/\b(?:season|part)\s*\d+\b/gi, '')
+      .replace(/\b\d+(?:st|nd|rd|th)\s+season\b/gi, '')
+      .trim();
+    if (query && !queries.some(q => q.toLowerCase() === query.toLowerCase())) {
+      queries.push(query);
+    }
+    if (queries.length >= MAX_SEARCH_QUERIES) break;
+  }
+  return queries;
+}
@@ -0,0 +1,81 @@
+import { SingleFlight } from './single-flight';
+
+export interface TtlCacheOptions {
+  /** Numero massimo di chiavi conservate: oltre questa soglia si scarta la meno usata di recente */
+  maxEntries: number;
+  /** TTL usato quando `set` non ne specifica uno */
+  defaultTtlMs: number;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Cache in memoria con TTL per chiave e dimensione limitata (LRU).
+ * Usata per evitare di ripetere le stesse chiamate a TMDB, Kitsu e VixSrc
+ * all'interno della stessa richiesta e tra richieste diverse.
+ */
+export class TtlCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  private loads = new SingleFlight<V | null>();
+
+  constructor(private options: TtlCacheOptions) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Reinserisci la chiave per marcarla come usata di recente
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V, ttlMs: number = this.options.defaultTtlMs): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Restituisce il valore in cache o lo calcola con `loader`.
+   * I risultati `null`/`undefined` non vengono salvati, così un errore
+   * temporaneo dell'upstream non resta in cache. Caricamenti concorrenti
+   * della stessa chiave condividono un'unica chiamata a `loader`.
+   */
+  async getOrLoad(key: string, loader: () => Promise<V | null | undefined>, ttlMs?: number): Promise<V | null> {
+    const cached = this.get(key);
+    if (cached !== undefined) return cached;
+
+    return this.loads.run(key, async () => {
+      const value = await loader();
+      if (value === null || value === undefined) return null;
+
+      this.set(key, value, ttlMs);
+      return value;
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { decryptConfig } from './config-token';
+import { createLogger } from './logger';
+
+const log = createLogger('config-store');
+
+const CODE_PREFIX = 's_';
+const CODE_LENGTH = 10;
+const CODE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// JSON con le chiavi ordinate: configurazioni uguali danno la stessa stringa a prescindere dall'ordine dei campi
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Impronta della configurazione in chiaro: i token cifrano con IV casuale, quindi lo stesso contenuto dà token diversi
+function configHash(config: Record<string, unknown>): string {
+  return createHash('sha256').update(canonicalJson(config)).digest('hex');
+}
+
+/**
+ * Archivio su file dei token di configurazione, indicizzati da un codice breve (es. `s_a8Kd02LmQx`).
+ * Salva i token già cifrati: il file non contiene mai la configurazione in chiaro.
+ * La stessa configurazione riceve sempre lo stesso codice. I codici non vengono mai rimossi, perché
+ * potrebbero essere ancora installati: raggiunto `maxEntries` non se ne creano di nuovi.
+ */
+export class ConfigStore {
+  private tokens = new Map<string, string>();
+  private codesByHash = new Map<string, string>();
+  private writing = false;
+  private dirty = false;
+
+  constructor(private filePath: string, private maxEntries: number) {
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const [code, token] of Object.entries(data)) {
+        if (typeof token !== 'string') continue;
+        this.tokens.set(code, token);
+        // Token cifrati con chiavi non più configurate restano leggibili solo come codice, senza deduplica
+        const config = decryptConfig(token);
+        if (config) this.codesByHash.set(configHash(config), code);
+      }
+      if (this.tokens.size >= this.maxEntries) {
+        log.warn(`Config store is full (${this.tokens.size}/${this.maxEntries}), new short links are disabled.`);
+      }
+      log.info(`Loaded ${this.tokens.size} stored configs.`);
+    } catch (error) {
+      log.error('Error loading stored configs', { error });
+    }
+  }
+
+  // Scritture asincrone e accorpate: le modifiche arrivate durante una scrittura finiscono nella successiva
+  private schedulePersist(): void {
+    this.dirty = true;
+    if (this.writing) return;
+    this.writing = true;
+    void this.persist().finally(() => {
+      this.writing = false;
+      if (this.dirty) this.schedulePersist();
+    });
+  }
+
+  private async persist(): Promise<void> {
+    while (this.dirty) {
+      this.dirty = false;
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        // Scrittura atomica: un crash a metà non deve corrompere i codici esistenti
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(Object.fromEntries(this.tokens)));
+        await fs.promises.rename(tempPath, this.filePath);
+      } catch (error) {
+        log.error('Error saving stored configs', { error });
+      }
+    }
+  }
+
+  private generateCode(): string {
+    const bytes = randomBytes(CODE_LENGTH);
+    let code = CODE_PREFIX;
+    for (const byte of bytes) {
+      code += CODE_ALPHABET[byte % CODE_ALPHABET.length];
+    }
+    return code;
+  }
+
+  static isShortCode(value: string): boolean {
+    return value.startsWith(CODE_PREFIX) && value.length === CODE_PREFIX.length + CODE_LENGTH;
+  }
+
+  /**
+   * Restituisce il codice breve per `token`, già decifrato dal chiamante in `config`
+   * @returns null se l'archivio è pieno e la configurazione non ha già un codice
+   */
+  save(token: string, config: Record<string, unknown>): string | null {
+    const hash = configHash(config);
+    const existing = this.codesByHash.get(hash);
+    if (existing) return existing;
+    if (this.tokens.size >= this.maxEntries) return null;
+
+    let code = this.generateCode();
+    while (this.tokens.has(code)) code = this.generateCode();
+    this.tokens.set(code, token);
+    this.codesByHash.set(hash, code);
+    if (this.tokens.size === this.maxEntries) {
+      log.warn(`Config store is full (${this.maxEntries} entries), new short links are disabled.`);
+    }
+    this.schedulePersist();
+    return code;
+  }
+
+  get(code: string): string | null {
+    return this.tokens.get(code) || null;
+  }
+}
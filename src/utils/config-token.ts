@@ -0,0 +1,110 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { createLogger } from './logger';
+
+const log = createLogger('config-token');
+
+// Formato del token: v1.<id chiave>.<iv | testo cifrato | tag> (base64url), AES-256-GCM
+const TOKEN_VERSION = 'v1';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface ConfigKey {
+  id: string;
+  key: Buffer;
+}
+
+function deriveKey(secret: string): ConfigKey {
+  const key = createHash('sha256').update(`streamvix-config:${secret}`).digest();
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+// Casuale finché configureConfigSecrets non imposta le chiavi di CONFIG_SECRET
+let keys: ConfigKey[] = [deriveKey(randomBytes(32).toString('hex'))];
+
+/**
+ * Imposta le chiavi (da EnvConfig.configSecrets): la prima cifra i nuovi token,
+ * le successive servono solo a decifrare i token emessi prima di una rotazione.
+ */
+export function configureConfigSecrets(secrets: string[]): void {
+  if (secrets.length === 0) {
+    log.warn('CONFIG_SECRET not set, using a random secret (install links will stop working on restart).');
+    return;
+  }
+  keys = secrets.map(deriveKey);
+}
+
+/**
+ * Cifra e autentica la configurazione utente in un token opaco da usare nell'URL del manifest
+ */
+export function encryptConfig(config: Record<string, unknown>): string {
+  const [current] = keys;
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', current.key, iv);
+  cipher.setAAD(Buffer.from(`${TOKEN_VERSION}.${current.id}`));
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(config), 'utf8'), cipher.final()]);
+  const payload = Buffer.concat([iv, encrypted, cipher.getAuthTag()]).toString('base64url');
+  return `${TOKEN_VERSION}.${current.id}.${payload}`;
+}
+
+export function isConfigToken(value: string): boolean {
+  return value.startsWith(`${TOKEN_VERSION}.`);
+}
+
+/**
+ * Decifra un token creato da encryptConfig. Restituisce null se il token è malformato,
+ * manomesso o cifrato con una chiave non più configurata.
+ */
+export function decryptConfig(token: string): Record<string, unknown> | null {
+  const [version, keyId, payload] = token.split('.');
+  if (version !== TOKEN_VERSION || !keyId || !payload) return null;
+
+  const configKey = keys.find(candidate => candidate.id === keyId);
+  if (!configKey) {
+    log.warn(`No key with id ${keyId}, token cannot be decrypted.`);
+    return null;
+  }
+
+  try {
+    const data = Buffer.from(payload, 'base64url');
+    const iv = data.subarray(0, IV_LENGTH);
+    const tag = data.subarray(data.length - TAG_LENGTH);
+    const encrypted = data.subarray(IV_LENGTH, data.length - TAG_LENGTH);
+    const decipher = createDecipheriv('aes-256-gcm', configKey.key, iv);
+    decipher.setAAD(Buffer.from(`${version}.${keyId}`));
+    decipher.setAuthTag(tag);
+    const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    const config = JSON.parse(decrypted);
+    return typeof config === 'object' && config !== null ? config : null;
+  } catch {
+    log.warn('Invalid or tampered config token.');
+    return null;
+  }
+}
+
+// Campi segreti: non vengono mai restituiti in chiaro a chi apre la pagina di configurazione
+const SECRET_CONFIG_KEYS = ['tmdbApiKey', 'mediaFlowProxyPassword'];
+export const SECRET_MASK = '***';
+
+/**
+ * Copia della configurazione con i campi segreti valorizzati sostituiti da SECRET_MASK
+ */
+export function maskSecrets(config: Record<string, unknown>): Record<string, unknown> {
+  const masked = { ...config };
+  for (const key of SECRET_CONFIG_KEYS) {
+    if (typeof masked[key] === 'string' && masked[key]) masked[key] = SECRET_MASK;
+  }
+  return masked;
+}
+
+/**
+ * Sostituisce i campi rimandati dal form con SECRET_MASK con i valori della configurazione
+ * da cui la pagina è stata aperta; senza configurazione precedente il campo viene svuotato.
+ */
+export function restoreSecrets(input: unknown, previous: Record<string, unknown> | null): unknown {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return input;
+  const restored: Record<string, unknown> = { ...input };
+  for (const key of SECRET_CONFIG_KEYS) {
+    if (restored[key] === SECRET_MASK) restored[key] = previous?.[key] ?? '';
+  }
+  return restored;
+}
@@ -1,31 +1,311 @@
+import { LogLevel, LogFormat, LOG_LEVELS, LOG_FORMATS } from './logger';
+import { DEFAULT_NAME_TEMPLATE, DEFAULT_TITLE_TEMPLATE, validateTemplate } from './stream-template';
+import { StreamLanguage } from '../types/stream-provider';
+
+/**
+ * Modello unico della configurazione: valori di default, variabili d'ambiente
+ * e configurazione dell'utente (dal form del manifest) vengono uniti e validati qui.
+ */
+
 export interface Config {
   tmdbApiKey: string;
   mfpUrl: string;
   mfpPassword: string;
   bothLink: boolean;
   animeUnityEnabled: boolean;
+  builtinProxy: boolean;
+  /** Altezza massima delle varianti HLS (es. 720), undefined = nessun limite */
+  maxResolution: number | undefined;
+  /** Template del nome e del titolo degli stream (vedi stream-template.ts) */
+  nameTemplate: string;
+  titleTemplate: string;
+  /** Lingua dell'audio mostrata per prima (ita = doppiato, sub = originale sottotitolato) */
+  preferredLanguage: StreamLanguage | 'any';
+  /** Nasconde gli stream di lingua diversa da quella preferita */
+  hideOtherLanguages: boolean;
+  /** Tipo di link mostrato per primo */
+  preferredSource: 'proxy' | 'direct' | 'any';
+}
+
+export interface EnvConfig extends Config {
   port: number;
+  logLevel: LogLevel;
+  logFormat: LogFormat;
+  /** Tempo massimo complessivo per rispondere a una richiesta stream */
+  streamDeadlineMs: number;
+  /** Timeout per provider (da PROVIDER_TIMEOUTS), in aggiunta a quelli di default dei provider */
+  providerTimeoutsMs: Record<string, number>;
+  /** Origini VixSrc e AnimeUnity in ordine di preferenza; vuoto = dominio di default */
+  vixSrcMirrors: string[];
+  animeUnityMirrors: string[];
+  /** Chiave HMAC dei link del proxy integrato; vuota = casuale a ogni avvio */
+  proxySecret: string;
+  /** Chiavi dei token di configurazione: la prima cifra, le altre solo decifrano; vuoto = casuale a ogni avvio */
+  configSecrets: string[];
+  /** File dell'archivio dei codici brevi; vuoto = archivio disattivato */
+  configStorePath: string;
+  configStoreMaxEntries: number;
+  /** Sorgente remota della mappatura ID anime */
+  animeMappingUrl: string;
 }
 
-export const config: Config = {
-  tmdbApiKey: process.env.TMDB_API_KEY || '',
-  mfpUrl: process.env.MFP_URL || '',
-  mfpPassword: process.env.MFP_PSW || '',
-  bothLink: process.env.BOTHLINK === 'true',
-  animeUnityEnabled: process.env.ANIMEUNITY_ENABLED === 'true',
-  port: parseInt(process.env.PORT || '7860')
+/** Campi del form di configurazione, come arrivano dal token o dal JSON nell'URL */
+export interface UserConfigInput {
+  tmdbApiKey?: string;
+  mediaFlowProxyUrl?: string;
+  mediaFlowProxyPassword?: string;
+  bothLinks?: string | boolean;
+  animeunityEnabled?: string | boolean;
+  builtinProxy?: string | boolean;
+  maxResolution?: string | number;
+  nameTemplate?: string;
+  titleTemplate?: string;
+  preferredLanguage?: string;
+  hideOtherLanguages?: string | boolean;
+  preferredSource?: string;
+}
+
+const DEFAULT_PORT = 7860;
+// Sotto il timeout del client Stremio, così qualche stream arriva anche con un servizio lento
+const DEFAULT_STREAM_DEADLINE_MS = 15000;
+const DEFAULT_CONFIG_STORE_MAX_ENTRIES = 10000;
+const DEFAULT_ANIME_MAPPING_URL = "https://raw.githubusercontent.com/Fribb/anime-lists/master/anime-list-full.json";
+// Chiavi più corte sono indovinabili: i link firmati e i token cifrati non sarebbero più protetti
+const MIN_SECRET_LENGTH = 16;
+const USER_CONFIG_KEYS: (keyof UserConfigInput)[] = [
+  'tmdbApiKey', 'mediaFlowProxyUrl', 'mediaFlowProxyPassword', 'bothLinks', 'animeunityEnabled', 'builtinProxy', 'maxResolution',
+  'nameTemplate', 'titleTemplate', 'preferredLanguage', 'hideOtherLanguages', 'preferredSource'
+];
+
+// Valori accettati, inclusi quelli mostrati nei select della pagina di configurazione
+const LANGUAGE_CHOICES: Record<string, StreamLanguage | 'any'> = {
+  'any': 'any', 'qualsiasi': 'any',
+  'ita': 'ita', 'dub': 'ita', 'ita (doppiato)': 'ita',
+  'sub': 'sub', 'sub ita': 'sub', 'sub ita (originale sottotitolato)': 'sub'
+};
+const SOURCE_CHOICES: Record<string, 'proxy' | 'direct' | 'any'> = {
+  'any': 'any', 'qualsiasi': 'any', 'proxy': 'proxy', 'direct': 'direct'
 };
 
-export const validateConfig = (): boolean => {
-  if (!config.tmdbApiKey) {
-    console.error('TMDB_API_KEY is required');
-    return false;
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration: ${issues.join('; ')}`);
+    this.name = 'ConfigError';
   }
-  
-  if (config.animeUnityEnabled && (!config.mfpUrl || !config.mfpPassword)) {
-    console.error('MFP_URL and MFP_PSW are required when AnimeUnity is enabled');
-    return false;
+}
+
+function parseBoolean(value: string | boolean | undefined, name: string, issues: string[]): boolean | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value === 'boolean') return value;
+  const normalized = value.trim().toLowerCase();
+  // "on" è il valore inviato dalle checkbox del form
+  if (['true', '1', 'on', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'off', 'no'].includes(normalized)) return false;
+  issues.push(`${name} must be a boolean (true/false), got "${value}"`);
+  return undefined;
+}
+
+function parseResolution(value: string | number | undefined, name: string, issues: string[]): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const height = typeof value === 'number' ? value : parseInt(value.replace(/p$/i, ''), 10);
+  if (!Number.isInteger(height) || height <= 0 || String(value).replace(/p$/i, '') !== String(height)) {
+    issues.push(`${name} must be a resolution like 720 or 720p, got "${value}"`);
+    return undefined;
   }
-  
-  return true;
-};
+  return height;
+}
+
+function parseDuration(value: string | undefined, name: string, issues: string[]): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const ms = Number(value.trim());
+  if (!Number.isInteger(ms) || ms <= 0) {
+    issues.push(`${name} must be a positive number of milliseconds, got "${value}"`);
+    return undefined;
+  }
+  return ms;
+}
+
+function parsePositiveInteger(value: string | undefined, name: string, issues: string[]): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value.trim());
+  if (!Number.isInteger(number) || number <= 0) {
+    issues.push(`${name} must be a positive integer, got "${value}"`);
+    return undefined;
+  }
+  return number;
+}
+
+function parseSecret(value: string | undefined, name: string, issues: string[]): string {
+  if (value === undefined || value === '') return '';
+  if (value.length < MIN_SECRET_LENGTH) {
+    issues.push(`${name} must be at least ${MIN_SECRET_LENGTH} characters long`);
+    return '';
+  }
+  return value;
+}
+
+// Più segreti separati da virgola (rotazione delle chiavi)
+function parseSecretList(value: string | undefined, name: string, issues: string[]): string[] {
+  return (value || '').split(',').map(secret => secret.trim()).filter(Boolean)
+    .map(secret => parseSecret(secret, name, issues))
+    .filter(Boolean);
+}
+
+// Formato: "vixsrc=8000,animeunity=12000"
+function parseProviderTimeouts(value: string | undefined, name: string, issues: string[]): Record<string, number> {
+  const timeouts: Record<string, number> = {};
+  if (value === undefined || value.trim() === '') return timeouts;
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [provider, ms] = entry.split('=').map(part => part.trim());
+    if (!provider || !ms) {
+      issues.push(`${name} entries must look like provider=milliseconds, got "${entry}"`);
+      continue;
+    }
+    const parsed = parseDuration(ms, `${name} (${provider})`, issues);
+    if (parsed !== undefined) timeouts[provider] = parsed;
+  }
+  return timeouts;
+}
+
+function parseChoice<T extends string>(value: string | undefined, choices: Record<string, T>, name: string, issues: string[]): T | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const choice = choices[value.trim().toLowerCase()];
+  if (!choice) issues.push(`${name} must be one of ${Array.from(new Set(Object.values(choices))).join(', ')}, got "${value}"`);
+  return choice;
+}
+
+function parseTemplate(value: string | undefined, name: string, issues: string[]): string | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const error = validateTemplate(value.trim());
+  if (error) {
+    issues.push(`${name} is not a valid template: ${error}`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function parseUrl(value: string | undefined, name: string, issues: string[]): string | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+    return value.trim();
+  } catch {
+    issues.push(`${name} must be an http(s) URL, got "${value}"`);
+    return undefined;
+  }
+}
+
+// Elenco di origini separate da virgola, es. "https://vixsrc.to,https://vixsrc.it"
+function parseOriginList(value: string | undefined, name: string, issues: string[]): string[] {
+  if (value === undefined || value.trim() === '') return [];
+  const origins: string[] = [];
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const url = parseUrl(entry, name, issues);
+    if (url) origins.push(new URL(url).origin);
+  }
+  return origins;
+}
+
+function checkMediaFlowPair(config: Config, urlName: string, passwordName: string, issues: string[]): void {
+  if (config.mfpUrl && !config.mfpPassword) issues.push(`${passwordName} is required when ${urlName} is set`);
+  if (!config.mfpUrl && config.mfpPassword) issues.push(`${urlName} is required when ${passwordName} is set`);
+}
+
+/**
+ * Legge e valida le variabili d'ambiente. Lancia ConfigError con tutti i problemi trovati.
+ */
+export function loadEnvConfig(env: NodeJS.ProcessEnv = process.env): EnvConfig {
+  const issues: string[] = [];
+
+  const port = env.PORT ? Number(env.PORT) : DEFAULT_PORT;
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    issues.push(`PORT must be a port number, got "${env.PORT}"`);
+  }
+
+  const logLevel = (env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(logLevel)) {
+    issues.push(`LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}, got "${env.LOG_LEVEL}"`);
+  }
+  const logFormat = (env.LOG_FORMAT || (env.NODE_ENV === 'production' ? 'json' : 'pretty')).toLowerCase() as LogFormat;
+  if (!LOG_FORMATS.includes(logFormat)) {
+    issues.push(`LOG_FORMAT must be one of ${LOG_FORMATS.join(', ')}, got "${env.LOG_FORMAT}"`);
+  }
+
+  const config: EnvConfig = {
+    port,
+    logLevel,
+    logFormat,
+    streamDeadlineMs: parseDuration(env.STREAM_DEADLINE_MS, 'STREAM_DEADLINE_MS', issues) ?? DEFAULT_STREAM_DEADLINE_MS,
+    providerTimeoutsMs: parseProviderTimeouts(env.PROVIDER_TIMEOUTS, 'PROVIDER_TIMEOUTS', issues),
+    vixSrcMirrors: parseOriginList(env.VIXSRC_MIRRORS, 'VIXSRC_MIRRORS', issues),
+    animeUnityMirrors: parseOriginList(env.ANIMEUNITY_MIRRORS, 'ANIMEUNITY_MIRRORS', issues),
+    proxySecret: parseSecret(env.PROXY_SECRET, 'PROXY_SECRET', issues),
+    configSecrets: parseSecretList(env.CONFIG_SECRET, 'CONFIG_SECRET', issues),
+    configStorePath: (env.CONFIG_STORE_PATH || '').trim(),
+    configStoreMaxEntries: parsePositiveInteger(env.CONFIG_STORE_MAX_ENTRIES, 'CONFIG_STORE_MAX_ENTRIES', issues) ?? DEFAULT_CONFIG_STORE_MAX_ENTRIES,
+    animeMappingUrl: parseUrl(env.ANIME_MAPPING_URL, 'ANIME_MAPPING_URL', issues) || DEFAULT_ANIME_MAPPING_URL,
+    tmdbApiKey: (env.TMDB_API_KEY || '').trim(),
+    mfpUrl: parseUrl(env.MFP_URL, 'MFP_URL', issues) || '',
+    mfpPassword: env.MFP_PSW || '',
+    bothLink: parseBoolean(env.BOTHLINK, 'BOTHLINK', issues) ?? false,
+    animeUnityEnabled: parseBoolean(env.ANIMEUNITY_ENABLED, 'ANIMEUNITY_ENABLED', issues) ?? false,
+    builtinProxy: parseBoolean(env.BUILTIN_PROXY, 'BUILTIN_PROXY', issues) ?? false,
+    maxResolution: parseResolution(env.MAX_RESOLUTION, 'MAX_RESOLUTION', issues),
+    nameTemplate: parseTemplate(env.STREAM_NAME_TEMPLATE, 'STREAM_NAME_TEMPLATE', issues) ?? DEFAULT_NAME_TEMPLATE,
+    titleTemplate: parseTemplate(env.STREAM_TITLE_TEMPLATE, 'STREAM_TITLE_TEMPLATE', issues) ?? DEFAULT_TITLE_TEMPLATE,
+    preferredLanguage: parseChoice(env.PREFERRED_LANGUAGE, LANGUAGE_CHOICES, 'PREFERRED_LANGUAGE', issues) ?? 'any',
+    hideOtherLanguages: parseBoolean(env.HIDE_OTHER_LANGUAGES, 'HIDE_OTHER_LANGUAGES', issues) ?? false,
+    preferredSource: parseChoice(env.PREFERRED_SOURCE, SOURCE_CHOICES, 'PREFERRED_SOURCE', issues) ?? 'any'
+  };
+  checkMediaFlowPair(config, 'MFP_URL', 'MFP_PSW', issues);
+
+  if (issues.length) throw new ConfigError(issues);
+  return config;
+}
+
+/**
+ * Unisce la configurazione dell'utente ai valori d'ambiente: i campi assenti o vuoti usano l'env.
+ * Lancia ConfigError se la configurazione dell'utente non è valida.
+ */
+export function resolveUserConfig(raw: unknown, envConfig: Config): Config {
+  if (raw === undefined || raw === null) raw = {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(['configuration must be a JSON object']);
+  }
+
+  const input = raw as Record<string, unknown>;
+  const issues: string[] = [];
+  for (const key of USER_CONFIG_KEYS) {
+    const value = input[key];
+    if (value !== undefined && typeof value !== 'string' && typeof value !== 'boolean' && typeof value !== 'number') {
+      issues.push(`${key} has an invalid value`);
+    }
+  }
+  if (issues.length) throw new ConfigError(issues);
+
+  const user = input as UserConfigInput;
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const mfpUrl = parseUrl(text(user.mediaFlowProxyUrl) || undefined, 'mediaFlowProxyUrl', issues);
+  const mfpPassword = text(user.mediaFlowProxyPassword);
+
+  const config: Config = {
+    tmdbApiKey: text(user.tmdbApiKey) || envConfig.tmdbApiKey,
+    // URL e password MediaFlow vanno in coppia: se l'utente ne indica uno non mescoliamo con l'env
+    mfpUrl: mfpUrl || (mfpPassword ? '' : envConfig.mfpUrl),
+    mfpPassword: mfpPassword || (mfpUrl ? '' : envConfig.mfpPassword),
+    bothLink: parseBoolean(user.bothLinks, 'bothLinks', issues) ?? envConfig.bothLink,
+    animeUnityEnabled: parseBoolean(user.animeunityEnabled, 'animeunityEnabled', issues) ?? envConfig.animeUnityEnabled,
+    builtinProxy: parseBoolean(user.builtinProxy, 'builtinProxy', issues) ?? envConfig.builtinProxy,
+    maxResolution: parseResolution(user.maxResolution, 'maxResolution', issues) ?? envConfig.maxResolution,
+    nameTemplate: parseTemplate(text(user.nameTemplate) || undefined, 'nameTemplate', issues) ?? envConfig.nameTemplate,
+    titleTemplate: parseTemplate(text(user.titleTemplate) || undefined, 'titleTemplate', issues) ?? envConfig.titleTemplate,
+    preferredLanguage: parseChoice(text(user.preferredLanguage) || undefined, LANGUAGE_CHOICES, 'preferredLanguage', issues) ?? envConfig.preferredLanguage,
+    hideOtherLanguages: parseBoolean(user.hideOtherLanguages, 'hideOtherLanguages', issues) ?? envConfig.hideOtherLanguages,
+    preferredSource: parseChoice(text(user.preferredSource) || undefined, SOURCE_CHOICES, 'preferredSource', issues) ?? envConfig.preferredSource
+  };
+  checkMediaFlowPair(config, 'mediaFlowProxyUrl', 'mediaFlowProxyPassword', issues);
+
+  if (issues.length) throw new ConfigError(issues);
+  return config;
+}
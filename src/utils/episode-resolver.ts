@@ -0,0 +1,65 @@
+import { AnimeUnityEpisode } from '../types/animeunity';
+
+export interface EpisodeRequest {
+  /** Numero episodio richiesto, relativo all'anime Kitsu (può essere 0 o decimale per gli speciali) */
+  episodeNumber: number;
+  /**
+   * Episodi che precedono questo anime nella numerazione assoluta
+   * (es. 12 per la seconda metà di uno split-cour pubblicato come unica voce su AnimeUnity)
+   */
+  absoluteOffset?: number;
+}
+
+export type EpisodeResolution = 'special' | 'continuation' | 'absolute' | 'exact';
+
+export interface ResolvedEpisode {
+  episode: AnimeUnityEpisode;
+  resolution: EpisodeResolution;
+}
+
+function episodeValue(episode: AnimeUnityEpisode): number {
+  return parseFloat(String(episode.number));
+}
+
+function isRegular(value: number): boolean {
+  return Number.isInteger(value) && value > 0;
+}
+
+function findByValue(episodes: AnimeUnityEpisode[], value: number): AnimeUnityEpisode | undefined {
+  return episodes.find(episode => episodeValue(episode) === value);
+}
+
+/**
+ * Trova l'episodio AnimeUnity che corrisponde all'episodio Kitsu richiesto.
+ *
+ * Ordine delle strategie:
+ * - speciali ("0", "12.5"): solo corrispondenza esatta del numero
+ * - voci che continuano la numerazione (es. seconda stagione che parte da 13): episodio relativo
+ * - numerazione assoluta con offset noto: offset + episodio
+ * - corrispondenza esatta del numero
+ */
+export function resolveEpisode(episodes: AnimeUnityEpisode[], request: EpisodeRequest): ResolvedEpisode | null {
+  const requested = request.episodeNumber;
+
+  if (!isRegular(requested)) {
+    const special = findByValue(episodes, requested);
+    return special ? { episode: special, resolution: 'special' } : null;
+  }
+
+  const regularValues = episodes.map(episodeValue).filter(isRegular);
+  if (!regularValues.length) return null;
+  const firstRegular = Math.min(...regularValues);
+
+  if (firstRegular > 1) {
+    const continued = findByValue(episodes, firstRegular + requested - 1);
+    if (continued) return { episode: continued, resolution: 'continuation' };
+  }
+
+  if (request.absoluteOffset && firstRegular === 1) {
+    const absolute = findByValue(episodes, request.absoluteOffset + requested);
+    if (absolute) return { episode: absolute, resolution: 'absolute' };
+  }
+
+  const exact = findByValue(episodes, requested);
+  return exact ? { episode: exact, resolution: 'exact' } : null;
+}
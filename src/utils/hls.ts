@@ -0,0 +1,174 @@
+export interface HlsVariant {
+  url: string;
+  bandwidth: number | null;
+  width: number | null;
+  height: number | null;
+  codecs: string | null;
+}
+
+/**
+ * Legge la lista di attributi di un tag HLS (es. `BANDWIDTH=1200000,CODECS="avc1,mp4a"`)
+ */
+export function parseAttributes(list: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(list)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+/**
+ * Estrae le varianti (EXT-X-STREAM-INF) da una master playlist, con URL assoluti
+ */
+export function parseMasterPlaylist(playlist: string, baseUrl: string): HlsVariant[] {
+  const lines = playlist.split(/\r?\n/).map(line => line.trim());
+  const variants: HlsVariant[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+
+    const attributes = parseAttributes(lines[i].slice('#EXT-X-STREAM-INF:'.length));
+    const uri = lines.slice(i + 1).find(line => line && !line.startsWith('#'));
+    if (!uri) continue;
+
+    const [width, height] = (attributes.RESOLUTION || '').split('x').map(value => parseInt(value, 10));
+    variants.push({
+      url: new URL(uri, baseUrl).toString(),
+      bandwidth: attributes.BANDWIDTH ? parseInt(attributes.BANDWIDTH, 10) : null,
+      width: width || null,
+      height: height || null,
+      codecs: attributes.CODECS || null
+    });
+  }
+
+  return variants;
+}
+
+/**
+ * Descrizione leggibile di una variante: "1080p · 4.5 Mbps · avc1.640028,mp4a.40.2"
+ */
+export function describeVariant(variant: HlsVariant): string {
+  const parts: string[] = [];
+  if (variant.height) parts.push(`${variant.height}p`);
+  if (variant.bandwidth) parts.push(`${(variant.bandwidth / 1000000).toFixed(1)} Mbps`);
+  if (variant.codecs) parts.push(variant.codecs);
+  return parts.join(' · ');
+}
+
+export interface HlsSubtitleRendition {
+  url: string;
+  name: string;
+  language: string | null;
+  forced: boolean;
+  isDefault: boolean;
+}
+
+/**
+ * Estrae le tracce sottotitoli (EXT-X-MEDIA TYPE=SUBTITLES) da una master playlist
+ */
+export function parseSubtitleRenditions(playlist: string, baseUrl: string): HlsSubtitleRendition[] {
+  return playlist
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.startsWith('#EXT-X-MEDIA:'))
+    .map(line => parseAttributes(line.slice('#EXT-X-MEDIA:'.length)))
+    .filter(attributes => attributes.TYPE === 'SUBTITLES' && !!attributes.URI)
+    .map(attributes => ({
+      url: new URL(attributes.URI, baseUrl).toString(),
+      name: attributes.NAME || '',
+      language: attributes.LANGUAGE || null,
+      forced: attributes.FORCED === 'YES' || /forced/i.test(attributes.NAME || ''),
+      isDefault: attributes.DEFAULT === 'YES'
+    }));
+}
+
+/**
+ * Restituisce gli URL assoluti dei segmenti di una media playlist
+ */
+export function parseMediaPlaylistSegments(playlist: string, baseUrl: string): string[] {
+  return playlist
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(uri => new URL(uri, baseUrl).toString());
+}
+
+function formatVttTimestamp(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+}
+
+function parseVttTimestamp(timestamp: string): number {
+  const parts = timestamp.split(':').map(parseFloat);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Unisce i segmenti WebVTT di una playlist HLS in un unico file VTT.
+ * Gli header ripetuti vengono rimossi e gli orari vengono riallineati secondo X-TIMESTAMP-MAP.
+ */
+export function mergeWebVttSegments(segments: string[]): string {
+  const cues: string[] = [];
+
+  for (const segment of segments) {
+    const lines = segment.replace(/^\uFEFF/, '').split(/\r?\n/);
+    let offset = 0;
+
+    const timestampMap = lines.find(line => line.startsWith('X-TIMESTAMP-MAP='));
+    if (timestampMap) {
+      const mpegts = timestampMap.match(/MPEGTS:(\d+)/);
+      const local = timestampMap.match(/LOCAL:([\d:.]+)/);
+      if (mpegts && local) {
+        offset = parseInt(mpegts[1], 10) / 90000 - parseVttTimestamp(local[1]);
+      }
+    }
+
+    // Salta l'header (WEBVTT e metadati) fino alla prima riga vuota
+    const bodyStart = lines.findIndex(line => line.trim() === '');
+    const body = bodyStart === -1 ? [] : lines.slice(bodyStart + 1);
+    const shifted = body.map(line => {
+      const match = line.match(/^([\d:.]+)\s+-->\s+([\d:.]+)(.*)$/);
+      if (!match || offset === 0) return line;
+      return `${formatVttTimestamp(parseVttTimestamp(match[1]) + offset)} --> ${formatVttTimestamp(parseVttTimestamp(match[2]) + offset)}${match[3]}`;
+    });
+
+    const text = shifted.join('\n').trim();
+    if (text) cues.push(text);
+  }
+
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+export type PlaylistUriKind = 'playlist' | 'resource';
+
+/**
+ * Riscrive tutti gli URI di una playlist (varianti, segmenti, chiavi, mappe, tracce EXT-X-MEDIA).
+ * `rewrite` riceve l'URL assoluto e il tipo: 'playlist' per le sotto-playlist, 'resource' per segmenti e chiavi.
+ */
+export function rewritePlaylistUris(playlist: string, baseUrl: string, rewrite: (url: string, kind: PlaylistUriKind) => string): string {
+  const lines = playlist.split(/\r?\n/);
+  let nextIsPlaylist = false;
+
+  return lines.map(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return rawLine;
+
+    if (line.startsWith('#')) {
+      const tag = line.slice(0, line.indexOf(':') === -1 ? line.length : line.indexOf(':'));
+      if (tag === '#EXT-X-STREAM-INF') nextIsPlaylist = true;
+      const uriKind: PlaylistUriKind = tag === '#EXT-X-MEDIA' || tag === '#EXT-X-I-FRAME-STREAM-INF' ? 'playlist' : 'resource';
+      return line.replace(/URI="([^"]+)"/g, (_, uri: string) => `URI="${rewrite(new URL(uri, baseUrl).toString(), uriKind)}"`);
+    }
+
+    const kind: PlaylistUriKind = nextIsPlaylist || /\.m3u8($|\?)/i.test(line) ? 'playlist' : 'resource';
+    nextIsPlaylist = false;
+    return rewrite(new URL(line, baseUrl).toString(), kind);
+  }).join('\n');
+}
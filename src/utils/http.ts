@@ -0,0 +1,297 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { upstreamRequestDuration } from './metrics';
+import { createLogger } from './logger';
+
+const log = createLogger('http');
+
+// --- Limiti per host ---
+interface HostPolicy {
+  /** Richieste contemporanee verso lo stesso host */
+  maxConcurrent: number;
+  /** Token bucket: richieste al secondo a regime e picco consentito */
+  ratePerSecond: number;
+  burst: number;
+}
+
+const DEFAULT_HOST_POLICY: HostPolicy = { maxConcurrent: 8, ratePerSecond: 10, burst: 20 };
+// TMDB consente circa 40 richieste ogni 10 secondi per IP; Kitsu è più lento a rispondere sotto carico
+const HOST_POLICIES: Record<string, Partial<HostPolicy>> = {
+  'api.themoviedb.org': { ratePerSecond: 4, burst: 40 },
+  'kitsu.io': { maxConcurrent: 4, ratePerSecond: 5, burst: 10 }
+};
+
+// --- Retry ---
+const DEFAULT_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 10000;
+const BACKOFF_BASE_MS = 300;
+// Un Retry-After più lungo di così non vale l'attesa: la risposta viene restituita al chiamante
+const MAX_RETRY_AFTER_MS = 10000;
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Un servizio esterno non ha risposto (errore di rete, timeout, 5xx o 429 dopo i retry).
+ * Distingue "servizio non raggiungibile" da "contenuto non trovato" nei valori restituiti dall'extractor.
+ */
+export class UpstreamError extends Error {
+  constructor(public readonly host: string, message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * true se l'errore indica un servizio esterno non raggiungibile (UpstreamError, errore di rete axios,
+ * 429 o 5xx) e non una risposta valida come un 404
+ */
+export function isUpstreamFailure(error: unknown): boolean {
+  if (error instanceof UpstreamError) return true;
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+// --- Scadenza della richiesta ---
+const abortContext = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Esegue `fn` annullando le chiamate upstream (fetchUpstream e axios), anche annidate, quando `signal` scatta.
+ * Usato dal registry per fermare un provider alla sua scadenza.
+ */
+export function runWithAbortSignal<T>(signal: AbortSignal, fn: () => T): T {
+  return abortContext.run(signal, fn);
+}
+
+export function currentAbortSignal(): AbortSignal | undefined {
+  return abortContext.getStore();
+}
+
+// AbortSignal.any non esiste in Node 18 (immagine Docker)
+function anySignal(signals: (AbortSignal | null | undefined)[]): AbortSignal | undefined {
+  const active = signals.filter((signal): signal is AbortSignal => !!signal);
+  if (active.length <= 1) return active[0];
+  const controller = new AbortController();
+  for (const signal of active) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * Semaforo e token bucket per un singolo host
+ */
+class HostLimiter {
+  private active = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private waiting: (() => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private policy: HostPolicy) {
+    this.tokens = policy.burst;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.policy.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.policy.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.waiting.length && this.active < this.policy.maxConcurrent && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.active++;
+      this.waiting.shift()!();
+    }
+    // Richieste ferme per mancanza di token: riprova quando ne sarà disponibile uno
+    if (this.waiting.length && this.active < this.policy.maxConcurrent && !this.timer) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.policy.ratePerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, waitMs);
+    }
+  }
+
+  /** Attende uno slot libero; la funzione restituita lo rilascia */
+  async acquire(): Promise<() => void> {
+    await new Promise<void>(resolve => {
+      this.waiting.push(resolve);
+      this.drain();
+    });
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.drain();
+    };
+  }
+}
+
+const limiters = new Map<string, HostLimiter>();
+
+function limiterFor(host: string): HostLimiter {
+  let limiter = limiters.get(host);
+  if (!limiter) {
+    limiter = new HostLimiter({ ...DEFAULT_HOST_POLICY, ...HOST_POLICIES[host] });
+    limiters.set(host, limiter);
+  }
+  return limiter;
+}
+
+function hostOf(url: string | undefined, baseURL?: string): string {
+  try {
+    return new URL(url || '', baseURL).host || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+// Backoff esponenziale con jitter completo, oppure il Retry-After indicato dal server
+function retryDelayMs(attempt: number, retryAfter: string | null | undefined): number | null {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(delay)) return delay > MAX_RETRY_AFTER_MS ? null : Math.max(0, delay);
+  }
+  return Math.random() * BACKOFF_BASE_MS * 2 ** attempt;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export interface UpstreamRequestInit extends RequestInit {
+  /** Timeout fino all'arrivo degli header (0 = nessuno); il body può essere letto senza limiti */
+  timeoutMs?: number;
+  /** Tentativi aggiuntivi per le richieste idempotenti */
+  retries?: number;
+  /**
+   * false = nessun limite per host: per il traffico del player (playlist e segmenti del proxy integrato),
+   * che non deve togliere slot alle chiamate API né esserne rallentato
+   */
+  hostLimits?: boolean;
+}
+
+/**
+ * Esegue un singolo tentativo rispettando i limiti dell'host; il timeout termina con gli header
+ */
+async function attemptFetch(url: string, host: string, init: RequestInit, timeoutMs: number, hostLimits: boolean): Promise<Response> {
+  const release = hostLimits ? await limiterFor(host).acquire() : () => undefined;
+  // La scadenza può essere passata durante l'attesa dello slot
+  if (init.signal?.aborted) {
+    release();
+    throw init.signal.reason;
+  }
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(init.signal?.reason);
+  init.signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeoutMs > 0 ? setTimeout(() => controller.abort(new Error(`Timeout after ${timeoutMs} ms`)), timeoutMs) : null;
+  const stopTimer = upstreamRequestDuration.startTimer({ host });
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    stopTimer({ status: String(response.status) });
+    return response;
+  } catch (error) {
+    stopTimer({ status: 'error' });
+    init.signal?.removeEventListener('abort', onAbort);
+    throw error;
+  } finally {
+    // Il segnale del chiamante resta collegato: deve poter interrompere anche la lettura del body
+    if (timer) clearTimeout(timer);
+    release();
+  }
+}
+
+/**
+ * fetch verso servizi esterni: limiti per host, timeout, retry con backoff per le richieste idempotenti
+ * e metriche di durata e stato per host in /metrics. Lancia UpstreamError se l'host non risponde.
+ */
+export async function fetchUpstream(url: string, init: UpstreamRequestInit = {}): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, hostLimits = true, ...callerInit } = init;
+  const requestInit: RequestInit = { ...callerInit, signal: anySignal([callerInit.signal, currentAbortSignal()]) };
+  const host = hostOf(url);
+  const maxRetries = IDEMPOTENT_METHODS.includes((requestInit.method || 'GET').toUpperCase()) ? retries : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await attemptFetch(url, host, requestInit, timeoutMs, hostLimits);
+    } catch (error) {
+      // Annullata dal chiamante (es. il client ha chiuso la connessione) o scaduta: nessun retry
+      if (requestInit.signal?.aborted) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      if (attempt >= maxRetries) throw new UpstreamError(host, `${host} unreachable: ${message}`);
+      const delay = retryDelayMs(attempt, null)!;
+      log.debug(`Retrying ${host} after network error in ${Math.round(delay)} ms`, { url, error: message });
+      await sleep(delay);
+      continue;
+    }
+
+    if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= maxRetries) return response;
+    const delay = retryDelayMs(attempt, response.headers.get('retry-after'));
+    if (delay === null) return response;
+
+    log.debug(`Retrying ${host} after HTTP ${response.status} in ${Math.round(delay)} ms`, { url });
+    await response.body?.cancel().catch(() => undefined);
+    await sleep(delay);
+    requestInit.signal?.throwIfAborted();
+  }
+}
+
+type TimedRequestConfig = InternalAxiosRequestConfig & {
+  metadata?: { stopTimer: (labels?: Record<string, string>) => void; release: () => void; attempt: number };
+};
+
+/**
+ * Applica all'istanza axios predefinita gli stessi limiti, retry e metriche di fetchUpstream
+ */
+export function instrumentAxios(): void {
+  axios.interceptors.request.use(async (config: TimedRequestConfig) => {
+    const host = hostOf(config.url, config.baseURL);
+    // axios non parte (CanceledError) se il segnale è già scattato, anche dopo l'attesa dello slot
+    config.signal = config.signal || currentAbortSignal();
+    const release = await limiterFor(host).acquire();
+    config.metadata = {
+      stopTimer: upstreamRequestDuration.startTimer({ host }),
+      release,
+      attempt: config.metadata?.attempt || 0
+    };
+    return config;
+  });
+  axios.interceptors.response.use(
+    (response: AxiosResponse) => {
+      const metadata = (response.config as TimedRequestConfig).metadata;
+      metadata?.stopTimer({ status: String(response.status) });
+      metadata?.release();
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error.config as TimedRequestConfig | undefined;
+      const metadata = config?.metadata;
+      metadata?.stopTimer({ status: error.response ? String(error.response.status) : 'error' });
+      metadata?.release();
+      if (!config || !metadata || axios.isCancel(error)) return Promise.reject(error);
+
+      const status = error.response?.status;
+      // Senza status è un errore di rete o un timeout
+      const retryable = status === undefined || RETRYABLE_STATUSES.includes(status);
+      const idempotent = IDEMPOTENT_METHODS.includes((config.method || 'get').toUpperCase());
+      if (!retryable || !idempotent || metadata.attempt >= DEFAULT_RETRIES) return Promise.reject(error);
+
+      const delay = retryDelayMs(metadata.attempt, error.response?.headers?.['retry-after']);
+      if (delay === null) return Promise.reject(error);
+      log.debug(`Retrying ${hostOf(config.url, config.baseURL)} after ${status ? `HTTP ${status}` : error.code} in ${Math.round(delay)} ms`);
+      await sleep(delay);
+      config.metadata = { ...metadata, attempt: metadata.attempt + 1 };
+      return axios.request(config);
+    }
+  );
+}
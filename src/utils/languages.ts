@@ -0,0 +1,53 @@
+// Codici ISO 639-2/B usati da Stremio per le lingue dei sottotitoli
+const ISO_639_1_TO_2: Record<string, string> = {
+  it: 'ita',
+  en: 'eng',
+  es: 'spa',
+  fr: 'fre',
+  de: 'ger',
+  pt: 'por',
+  ja: 'jpn',
+  ru: 'rus',
+  ar: 'ara',
+  zh: 'chi',
+  ko: 'kor',
+  nl: 'dut',
+  pl: 'pol',
+  tr: 'tur'
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  italian: 'ita',
+  italiano: 'ita',
+  english: 'eng',
+  inglese: 'eng',
+  spanish: 'spa',
+  french: 'fre',
+  german: 'ger',
+  portuguese: 'por',
+  japanese: 'jpn',
+  giapponese: 'jpn'
+};
+
+const ISO_639_2_VARIANTS: Record<string, string> = {
+  fra: 'fre',
+  deu: 'ger',
+  zho: 'chi',
+  nld: 'dut'
+};
+
+/**
+ * Converte un codice lingua (ISO 639-1, 639-2, BCP 47 come "it-IT") o un nome ("Italian") in ISO 639-2/B.
+ * Restituisce null se la lingua non è riconosciuta.
+ */
+export function toIso6392(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase();
+  const primary = normalized.split(/[-_]/)[0];
+
+  if (ISO_639_1_TO_2[primary]) return ISO_639_1_TO_2[primary];
+  if (primary.length === 3) return ISO_639_2_VARIANTS[primary] || primary;
+
+  const word = Object.keys(LANGUAGE_NAMES).find(name => normalized.includes(name));
+  return word ? LANGUAGE_NAMES[word] : null;
+}
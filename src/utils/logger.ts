@@ -0,0 +1,108 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+export type LogContext = Record<string, unknown>;
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+// Chiavi di oggetti e parametri di query che non devono mai finire nei log
+const SECRET_KEY_PATTERN = /pass(word)?|psw|secret|token|api_?key|authorization|cookie|^sig$/i;
+const SECRET_QUERY_PATTERN = /([?&](?:api_password|api_key|password|token|sig|h_authorization|h_cookie)=)[^&\s"']*/gi;
+const MAX_DEPTH = 5;
+
+interface RequestContext {
+  requestId: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Valori di avvio, sostituiti da configureLogger con quelli validati di LOG_LEVEL e LOG_FORMAT
+let minLevel: LogLevel = 'info';
+let format: LogFormat = 'pretty';
+
+/**
+ * Imposta livello minimo e formato dopo la validazione dell'ambiente (vedi utils/config.ts)
+ */
+export function configureLogger(options: { level?: LogLevel; format?: LogFormat }): void {
+  if (options.level) minLevel = options.level;
+  if (options.format) format = options.format;
+}
+
+export function newRequestId(): string {
+  return randomBytes(6).toString('hex');
+}
+
+/**
+ * Esegue `fn` associando i log prodotti (anche nelle chiamate asincrone) all'ID richiesta
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Maschera password, chiavi API e token in stringhe (parametri di query), oggetti ed errori
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return value.replace(SECRET_QUERY_PATTERN, '$1***');
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message), stack: redact(value.stack), cause: redact((value as Error & { cause?: unknown }).cause, depth + 1) };
+  }
+  if (value === null || typeof value !== 'object' || depth >= MAX_DEPTH) return value;
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  const result: LogContext = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SECRET_KEY_PATTERN.test(key) && item !== undefined && item !== null && item !== ''
+      ? '***'
+      : redact(item, depth + 1);
+  }
+  return result;
+}
+
+function write(level: LogLevel, scope: string, message: string, context?: LogContext): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return;
+
+  const requestId = currentRequestId();
+  const safeMessage = redact(message) as string;
+  const safeContext = context ? redact(context) as LogContext : undefined;
+  const output = level === 'error' || level === 'warn' ? console.error : console.log;
+
+  if (format === 'json') {
+    // Il contesto va prima: una sua chiave (es. "level") non deve sovrascrivere i campi del logger
+    output(JSON.stringify({ ...safeContext, time: new Date().toISOString(), level, scope, requestId, msg: safeMessage }));
+    return;
+  }
+
+  const prefix = `${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} [${scope}]${requestId ? ` (${requestId})` : ''}`;
+  if (safeContext && Object.keys(safeContext).length) {
+    output(`${prefix} ${safeMessage}`, safeContext);
+  } else {
+    output(`${prefix} ${safeMessage}`);
+  }
+}
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+/**
+ * Logger con ambito (es. "VixSrc", "AnimeUnity"), usato al posto di console.* in tutto il server
+ */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, context) => write('debug', scope, message, context),
+    info: (message, context) => write('info', scope, message, context),
+    warn: (message, context) => write('warn', scope, message, context),
+    error: (message, context) => write('error', scope, message, context)
+  };
+}
@@ -0,0 +1,148 @@
+// Metriche in formato testo Prometheus, esposte da /metrics
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+interface Metric {
+  render(): string;
+}
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (!entries.length) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function labelKey(labelNames: string[], labels: Labels): string {
+  return labelNames.map(name => labels[name] ?? '').join('\u0000');
+}
+
+function pickLabels(labelNames: string[], labels: Labels): Labels {
+  const picked: Labels = {};
+  for (const name of labelNames) picked[name] = labels[name] ?? '';
+  return picked;
+}
+
+export class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string, private labelNames: string[] = []) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(this.labelNames, labels);
+    const entry = this.values.get(key) || { labels: pickLabels(this.labelNames, labels), value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach(({ labels, value }) => lines.push(`${this.name}${formatLabels(labels)} ${value}`));
+    return lines.join('\n');
+  }
+}
+
+export class Histogram {
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private labelNames: string[] = [], private buckets: number[] = DEFAULT_BUCKETS) {
+    registry.push(this);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(this.labelNames, labels);
+    const entry = this.values.get(key) || { labels: pickLabels(this.labelNames, labels), buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Avvia un timer: la funzione restituita registra i secondi trascorsi, con etichette aggiuntive opzionali
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+    const startedAt = process.hrtime.bigint();
+    return (extraLabels: Labels = {}) => {
+      this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - startedAt) / 1e9);
+    };
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.values.forEach(({ labels, buckets, sum, count }) => {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+    return lines.join('\n');
+  }
+}
+
+export function renderMetrics(): string {
+  return `${registry.map(metric => metric.render()).join('\n')}\n`;
+}
+
+// Tipo e ID arrivano dall'URL senza validazione: solo valori noti diventano etichette, il resto è "other"
+const KNOWN_TYPES = ['movie', 'series', 'anime'];
+const KNOWN_ID_PREFIXES = ['kitsu', 'mal', 'anilist', 'animeunity', 'tmdb'];
+
+/**
+ * Tipo di contenuto per le etichette, tra quelli dichiarati nel manifest
+ */
+export function typeLabel(type: string): string {
+  return KNOWN_TYPES.includes(type) ? type : 'other';
+}
+
+/**
+ * Prefisso dell'ID Stremio per le etichette (tt, kitsu, mal, ...), senza valori ad alta cardinalità
+ */
+export function idPrefixLabel(id: string): string {
+  if (/^tt\d/.test(id)) return 'tt';
+  const prefix = id.split(':')[0];
+  return KNOWN_ID_PREFIXES.includes(prefix) ? prefix : 'other';
+}
+
+export const streamRequests = new Counter(
+  'streamvix_stream_requests_total',
+  'Stream handler requests by content type and id prefix',
+  ['type', 'id_prefix']
+);
+
+export const streamRequestDuration = new Histogram(
+  'streamvix_stream_request_duration_seconds',
+  'Stream handler duration by content type and id prefix',
+  ['type', 'id_prefix']
+);
+
+export const streamsReturned = new Counter(
+  'streamvix_streams_returned_total',
+  'Streams returned to Stremio by provider and mode (direct, proxy, embed)',
+  ['provider', 'mode']
+);
+
+export const upstreamRequestDuration = new Histogram(
+  'streamvix_upstream_request_duration_seconds',
+  'Upstream HTTP request duration by host and status code ("error" for network failures)',
+  ['host', 'status']
+);
+
+export const extractorFailures = new Counter(
+  'streamvix_extractor_failures_total',
+  'Stream extraction failures by provider and reason',
+  ['provider', 'reason']
+);
@@ -0,0 +1,205 @@
+import { fetchUpstream, runWithAbortSignal, UpstreamError } from './http';
+import { createLogger } from './logger';
+
+const log = createLogger('mirrors');
+
+// Un mirror non raggiungibile viene saltato per questo intervallo, poi ritentato
+const UNHEALTHY_COOLDOWN_MS = 5 * 60 * 1000;
+const MAX_REDIRECTS = 5;
+const PERMANENT_REDIRECT_STATUSES = [301, 308];
+const PROBE_TIMEOUT_MS = 10 * 1000;
+
+export interface MirrorResponse {
+  response: Response;
+  /** URL effettivamente usato, dopo failover e redirect */
+  url: string;
+}
+
+export interface MirrorState {
+  origin: string;
+  active: boolean;
+  healthy: boolean;
+  lastError: string | null;
+}
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+// Errori di rete e 5xx indicano un mirror non raggiungibile; i 4xx sono risposte valide del sito
+function isMirrorFailure(status: number): boolean {
+  return status >= 500;
+}
+
+/**
+ * Elenco ordinato di origini equivalenti per un sito (es. cambi di dominio di VixSrc o AnimeUnity).
+ * I mirror che falliscono vengono saltati per qualche minuto e i redirect permanenti verso un nuovo
+ * dominio vengono imparati: il nuovo dominio diventa il primo della lista dopo aver verificato che
+ * la sua home risponda e contenga `fingerprint`.
+ */
+export class MirrorSet {
+  private origins: string[];
+  private unhealthyUntil = new Map<string, number>();
+  private lastErrors = new Map<string, string>();
+  // Domini di destinazione in verifica o scartati di recente, con la scadenza oltre cui si possono riprovare
+  private redirectProbes = new Map<string, number>();
+
+  constructor(public readonly name: string, origins: string[], private fingerprint: RegExp) {
+    this.origins = [...origins];
+  }
+
+  /**
+   * Sostituisce l'elenco (es. da VIXSRC_MIRRORS); un elenco vuoto mantiene quello di default
+   */
+  setOrigins(origins: string[]): void {
+    if (!origins.length) return;
+    this.origins = origins.map(origin => origin.replace(/\/+$/, ''));
+    this.unhealthyUntil.clear();
+    this.lastErrors.clear();
+  }
+
+  private isHealthy(origin: string): boolean {
+    return (this.unhealthyUntil.get(origin) || 0) <= Date.now();
+  }
+
+  /** Origini in ordine di preferenza: prima quelle sane, poi quelle in pausa */
+  candidates(): string[] {
+    return [...this.origins.filter(origin => this.isHealthy(origin)), ...this.origins.filter(origin => !this.isHealthy(origin))];
+  }
+
+  /** Origine da usare per costruire URL di lista, embed, iframe e referer */
+  get active(): string {
+    return this.candidates()[0];
+  }
+
+  has(origin: string): boolean {
+    return this.origins.includes(origin);
+  }
+
+  markHealthy(origin: string): void {
+    this.unhealthyUntil.delete(origin);
+  }
+
+  markUnhealthy(origin: string, reason: string): void {
+    if (!this.has(origin)) return;
+    this.unhealthyUntil.set(origin, Date.now() + UNHEALTHY_COOLDOWN_MS);
+    this.lastErrors.set(origin, reason);
+    log.warn(`${this.name} mirror ${origin} unavailable (${reason}), skipping it for ${UNHEALTHY_COOLDOWN_MS / 1000}s`);
+  }
+
+  /**
+   * Registra un redirect permanente: la nuova origine resta candidata finché la verifica non la conferma,
+   * poi viene messa in testa alla lista. Un redirect verso un dominio parcheggiato o dirottato viene ignorato.
+   */
+  learnRedirect(fromOrigin: string, toOrigin: string): void {
+    if (fromOrigin === toOrigin || !this.has(fromOrigin) || this.origins[0] === toOrigin) return;
+    if ((this.redirectProbes.get(toOrigin) || 0) > Date.now()) return;
+    this.redirectProbes.set(toOrigin, Date.now() + UNHEALTHY_COOLDOWN_MS);
+
+    // La verifica non dipende dalla richiesta che ha incontrato il redirect né dalla sua scadenza
+    const probe = runWithAbortSignal(new AbortController().signal, () => this.probe(toOrigin));
+    void probe.then(valid => {
+      if (!valid || this.origins[0] === toOrigin) return;
+      log.info(`${this.name} moved from ${fromOrigin} to ${toOrigin}, using the new domain from now on`);
+      this.origins = [toOrigin, ...this.origins.filter(origin => origin !== toOrigin)];
+      this.markHealthy(toOrigin);
+      this.redirectProbes.delete(toOrigin);
+    });
+  }
+
+  // La home del nuovo dominio deve rispondere senza altri redirect e riportare l'impronta del sito
+  private async probe(origin: string): Promise<boolean> {
+    try {
+      const response = await fetchUpstream(`${origin}/`, { redirect: 'manual', timeoutMs: PROBE_TIMEOUT_MS });
+      if (!response.ok) {
+        log.warn(`${this.name} redirect to ${origin} ignored: HTTP ${response.status}`);
+        return false;
+      }
+      if (!this.fingerprint.test(await response.text())) {
+        log.warn(`${this.name} redirect to ${origin} ignored: the page does not look like ${this.name}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      log.warn(`${this.name} redirect to ${origin} ignored: the new domain is not reachable`, { error });
+      return false;
+    }
+  }
+
+  /**
+   * Esegue `run` sulle origini in ordine finché una risponde. Gli errori per cui `isMirrorError`
+   * restituisce false (es. un 404) vengono rilanciati subito senza cambiare mirror.
+   * Se nessun mirror risponde viene rilanciato l'errore dell'ultima origine.
+   */
+  async request<T>(run: (origin: string) => Promise<T>, isMirrorError: (error: unknown) => boolean = () => true): Promise<T> {
+    let lastError: unknown;
+    for (const origin of this.candidates()) {
+      try {
+        const result = await run(origin);
+        this.markHealthy(origin);
+        return result;
+      } catch (error) {
+        if (!isMirrorError(error)) throw error;
+        lastError = error;
+        this.markUnhealthy(origin, error instanceof Error ? error.message : String(error));
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * fetch con failover: `pathOrUrl` può essere un percorso o un URL assoluto su uno dei mirror.
+   * I redirect sono seguiti manualmente per riconoscere quelli permanenti verso un nuovo dominio.
+   */
+  async fetch(pathOrUrl: string, init: RequestInit = {}): Promise<MirrorResponse> {
+    const origin = originOf(pathOrUrl);
+    if (origin && !this.has(origin)) return { response: await fetchUpstream(pathOrUrl, init), url: pathOrUrl };
+    const path = origin ? pathOrUrl.slice(origin.length) : pathOrUrl;
+
+    return this.request(async candidate => {
+      let url = `${candidate}${path}`;
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const response = await fetchUpstream(url, { ...init, redirect: 'manual' });
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) {
+          if (isMirrorFailure(response.status)) throw new UpstreamError(new URL(url).host, `HTTP ${response.status}`, response.status);
+          return { response, url };
+        }
+
+        const nextUrl = new URL(location, url).toString();
+        if (PERMANENT_REDIRECT_STATUSES.includes(response.status)) {
+          this.learnRedirect(new URL(url).origin, new URL(nextUrl).origin);
+        }
+        url = nextUrl;
+      }
+      throw new UpstreamError(new URL(url).host, `Too many redirects for ${path}`);
+    });
+  }
+
+  /**
+   * Callback `beforeRedirect` per axios: impara i redirect permanenti seguiti automaticamente
+   */
+  redirectObserver() {
+    return (_: Record<string, any>, response: { headers: Record<string, string>; statusCode: number }, request: { url: string }) => {
+      const location = response.headers.location;
+      if (!PERMANENT_REDIRECT_STATUSES.includes(response.statusCode) || !location) return;
+      const fromOrigin = originOf(request.url);
+      const toOrigin = originOf(new URL(location, request.url).toString());
+      if (fromOrigin && toOrigin) this.learnRedirect(fromOrigin, toOrigin);
+    };
+  }
+
+  snapshot(): MirrorState[] {
+    const active = this.active;
+    return this.origins.map(origin => ({
+      origin,
+      active: origin === active,
+      healthy: this.isHealthy(origin),
+      lastError: this.lastErrors.get(origin) || null
+    }));
+  }
+}
@@ -0,0 +1,56 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+export interface RateLimitOptions {
+  /** Durata della finestra di conteggio */
+  windowMs: number;
+  /** Richieste ammesse per client in ogni finestra */
+  max: number;
+  /** Numero massimo di client tracciati: oltre questa soglia si scartano le finestre scadute */
+  maxClients?: number;
+}
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+const DEFAULT_MAX_CLIENTS = 10000;
+
+/**
+ * Limite di richieste per client a finestra fissa, in memoria.
+ * Il client è `req.ip`: dietro un reverse proxy serve `trust proxy` di Express per distinguere i client reali.
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  const maxClients = options.maxClients ?? DEFAULT_MAX_CLIENTS;
+  const windows = new Map<string, RateWindow>();
+
+  const prune = (now: number) => {
+    for (const [client, window] of windows) {
+      if (window.resetAt <= now) windows.delete(client);
+    }
+    // Tutte le finestre ancora attive: si scartano le più vecchie per restare entro il limite
+    for (const client of windows.keys()) {
+      if (windows.size < maxClients) break;
+      windows.delete(client);
+    }
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const client = req.ip || req.socket.remoteAddress || 'unknown';
+    let window = windows.get(client);
+    if (!window || window.resetAt <= now) {
+      if (!window && windows.size >= maxClients) prune(now);
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(client, window);
+    }
+
+    window.count++;
+    if (window.count > options.max) {
+      res.setHeader('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      res.status(429).json({ error: 'Too many requests, try again later' });
+      return;
+    }
+    next();
+  };
+}
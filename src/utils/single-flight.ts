@@ -0,0 +1,71 @@
+import { currentAbortSignal, runWithAbortSignal } from './http';
+
+interface Flight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Chiamanti ancora in attesa del risultato */
+  waiters: number;
+}
+
+/**
+ * Deduplica le operazioni in corso: chiamate concorrenti con la stessa chiave condividono
+ * la stessa promise, così N richieste identiche costano una sola chiamata upstream.
+ * La chiave viene liberata appena l'operazione termina (anche in caso di errore).
+ *
+ * L'operazione non eredita la scadenza del primo chiamante: ogni chiamante smette di attendere
+ * alla propria scadenza, e l'operazione viene annullata solo quando non resta nessuno ad attenderla.
+ */
+export class SingleFlight<T> {
+  private inFlight = new Map<string, Flight<T>>();
+
+  run(key: string, operation: () => Promise<T>): Promise<T> {
+    const signal = currentAbortSignal();
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    let flight = this.inFlight.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const created: Flight<T> = {
+        controller,
+        waiters: 0,
+        promise: runWithAbortSignal(controller.signal, operation).finally(() => {
+          if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+        })
+      };
+      // Un'operazione annullata non deve essere condivisa con chi arriva dopo
+      controller.signal.addEventListener('abort', () => {
+        if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+      }, { once: true });
+      this.inFlight.set(key, created);
+      flight = created;
+    }
+    return this.wait(flight, signal);
+  }
+
+  private wait(flight: Flight<T>, signal: AbortSignal | undefined): Promise<T> {
+    flight.waiters++;
+    if (!signal) return flight.promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal.reason);
+        if (--flight.waiters === 0) flight.controller.abort(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      flight.promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+}
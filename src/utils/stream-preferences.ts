@@ -0,0 +1,34 @@
+import { Stream } from 'stremio-addon-sdk';
+import { ProviderStream } from '../types/stream-provider';
+import { Config } from './config';
+
+type StreamPreferences = Pick<Config, 'preferredLanguage' | 'hideOtherLanguages' | 'preferredSource'>;
+
+/**
+ * Ordina e filtra gli stream di tutti i provider secondo le preferenze dell'utente:
+ * prima la lingua preferita, poi il tipo di link preferito. A parità resta l'ordine del registry.
+ * Gli stream di lingua sconosciuta non vengono mai nascosti.
+ */
+export function applyStreamPreferences(streams: ProviderStream[], preferences: StreamPreferences): Stream[] {
+  const { preferredLanguage, hideOtherLanguages, preferredSource } = preferences;
+
+  const visible = hideOtherLanguages && preferredLanguage !== 'any'
+    ? streams.filter(item => !item.language || item.language === preferredLanguage)
+    : streams;
+
+  // 0 = preferito, 1 = indifferente o sconosciuto, 2 = non preferito
+  const languageRank = (item: ProviderStream) => {
+    if (preferredLanguage === 'any' || !item.language) return 1;
+    return item.language === preferredLanguage ? 0 : 2;
+  };
+  const sourceRank = (item: ProviderStream) => (preferredSource === 'any' || item.source === preferredSource ? 0 : 1);
+
+  return visible
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      languageRank(a.item) - languageRank(b.item) ||
+      sourceRank(a.item) - sourceRank(b.item) ||
+      a.index - b.index
+    )
+    .map(({ item }) => item.stream);
+}
@@ -0,0 +1,157 @@
+/**
+ * Template per nome e titolo degli stream mostrati in Stremio.
+ *
+ * Sintassi:
+ * - `{title}`, `{season}`, `{episode}`, `{quality}`, `{language}`, `{source}`, `{provider}`, `{details}`: valori dello stream
+ * - `{if:quality} ... {/if}`: il contenuto compare solo se il valore è presente; `{if:!quality}` se è assente
+ * - `\n`: a capo (i campi del form di configurazione sono su una riga sola)
+ */
+
+export interface StreamTemplateValues {
+  /** Titolo del film, della serie o dell'anime */
+  title?: string;
+  season?: number;
+  episode?: number;
+  /** Qualità della variante (es. "1080p") */
+  quality?: string;
+  /** Lingua dell'audio o dei sottotitoli (es. "ITA", "SUB ITA") */
+  language?: string;
+  /** Tipo di link: Proxy, Direct o Embed */
+  source?: string;
+  /** Nome della sorgente (es. VixSrc, AnimeUnity) */
+  provider?: string;
+  /** Informazioni tecniche aggiuntive (es. bitrate e codec) */
+  details?: string;
+}
+
+export const TEMPLATE_PLACEHOLDERS: (keyof StreamTemplateValues)[] = [
+  'title', 'season', 'episode', 'quality', 'language', 'source', 'provider', 'details'
+];
+
+export const DEFAULT_NAME_TEMPLATE = 'StreamViX {provider}{if:quality}\\n{quality}{/if}';
+export const DEFAULT_TITLE_TEMPLATE =
+  '{title}{if:episode} {if:season}S{season}{/if}E{episode}{/if}{if:language} {language}{/if}{if:source} ({source}){/if}{if:details}\\n{details}{/if}';
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; key: keyof StreamTemplateValues }
+  | { kind: 'if'; key: keyof StreamTemplateValues; negate: boolean; children: TemplateNode[] };
+
+// Anche le maiuscole: {Title} deve essere rifiutato come segnaposto sconosciuto, non stampato così com'è
+const TAG_PATTERN = /\{(\/if|if:!?[a-z]+|[a-z]+)\}/gi;
+const MAX_TEMPLATE_LENGTH = 300;
+
+function placeholder(name: string): keyof StreamTemplateValues {
+  if (!(TEMPLATE_PLACEHOLDERS as string[]).includes(name)) {
+    throw new TemplateError(`unknown placeholder {${name}}`);
+  }
+  return name as keyof StreamTemplateValues;
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  if (template.length > MAX_TEMPLATE_LENGTH) throw new TemplateError(`longer than ${MAX_TEMPLATE_LENGTH} characters`);
+
+  const root: TemplateNode[] = [];
+  // Pila dei blocchi {if} aperti: si aggiunge sempre all'ultimo
+  const stack: TemplateNode[][] = [root];
+  const pushText = (text: string) => {
+    if (text) stack[stack.length - 1].push({ kind: 'text', text: text.replace(/\\n/g, '\n') });
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    pushText(template.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+    const tag = match[1];
+
+    if (tag.toLowerCase() === '/if') {
+      if (stack.length === 1) throw new TemplateError('{/if} without a matching {if:...}');
+      stack.pop();
+    } else if (tag.toLowerCase().startsWith('if:')) {
+      const negate = tag[3] === '!';
+      const node: TemplateNode = { kind: 'if', key: placeholder(tag.slice(negate ? 4 : 3)), negate, children: [] };
+      stack[stack.length - 1].push(node);
+      stack.push(node.children);
+    } else {
+      stack[stack.length - 1].push({ kind: 'value', key: placeholder(tag) });
+    }
+  }
+  pushText(template.slice(lastIndex));
+
+  if (stack.length > 1) throw new TemplateError('{if:...} without a matching {/if}');
+  return root;
+}
+
+// I template arrivano dalla configurazione di ogni richiesta: li analizziamo una volta sola
+const parsedTemplates = new Map<string, TemplateNode[]>();
+const MAX_PARSED_TEMPLATES = 500;
+
+function compileTemplate(template: string): TemplateNode[] {
+  let nodes = parsedTemplates.get(template);
+  if (!nodes) {
+    nodes = parseTemplate(template);
+    if (parsedTemplates.size >= MAX_PARSED_TEMPLATES) parsedTemplates.clear();
+    parsedTemplates.set(template, nodes);
+  }
+  return nodes;
+}
+
+/**
+ * Messaggio d'errore se il template non è valido, null altrimenti
+ */
+export function validateTemplate(template: string): string | null {
+  try {
+    compileTemplate(template);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateError) return error.message;
+    throw error;
+  }
+}
+
+function hasValue(value: string | number | undefined): boolean {
+  if (typeof value === 'number') return !Number.isNaN(value);
+  return value !== undefined && value !== null && value.trim() !== '';
+}
+
+function renderNodes(nodes: TemplateNode[], values: StreamTemplateValues): string {
+  return nodes.map(node => {
+    if (node.kind === 'text') return node.text;
+    if (node.kind === 'value') return hasValue(values[node.key]) ? String(values[node.key]).trim() : '';
+    return hasValue(values[node.key]) !== node.negate ? renderNodes(node.children, values) : '';
+  }).join('');
+}
+
+/**
+ * Applica il template ai valori dello stream. Spazi doppi e righe vuote lasciati dai valori
+ * mancanti vengono rimossi.
+ */
+export function renderStreamTemplate(template: string, values: StreamTemplateValues): string {
+  return renderNodes(compileTemplate(template), values)
+    .split('\n')
+    .map(line => line.replace(/ {2,}/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+export interface StreamTemplates {
+  nameTemplate: string;
+  titleTemplate: string;
+}
+
+/**
+ * Nome e titolo di uno stream con i template della configurazione
+ */
+export function renderStreamLabels(templates: StreamTemplates, values: StreamTemplateValues): { name: string; title: string } {
+  return {
+    name: renderStreamTemplate(templates.nameTemplate, values),
+    title: renderStreamTemplate(templates.titleTemplate, values)
+  };
+}
@@ -0,0 +1,20 @@
+export class TimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timeout after ${timeoutMs} ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Rifiuta con TimeoutError se la promise non si risolve entro timeoutMs.
+ * L'operazione sottostante non viene annullata: il suo risultato viene solo ignorato.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new TimeoutError(timeoutMs)), timeoutMs);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}